@@ -6,6 +6,8 @@ import pkg from "./package.json";
 import terser from "@rollup/plugin-terser";
 
 const input = "./src/Cmi5.ts";
+// Rollup cannot emit a default-only UMD bundle from an entry that also has named exports
+const umdInput = "./src/Cmi5.umd.ts";
 
 const extensions = [".js", ".ts"];
 
@@ -18,29 +20,39 @@ const babelPluginOptions = {
   extensions: extensions,
 };
 
+const plugins = [
+  resolve({
+    ...resolveOptions,
+    browser: true,
+  }),
+  commonjs(), // Used for Axios import
+  json(),
+  babel(babelPluginOptions),
+  terser(),
+];
+
 export default [
   {
-    input: input,
-    plugins: [
-      resolve({
-        ...resolveOptions,
-        browser: true,
-      }),
-      commonjs(), // Used for Axios import
-      json(),
-      babel(babelPluginOptions),
-      terser(),
-    ],
+    input: umdInput,
+    plugins: plugins,
     output: [
       {
         file: pkg.browser,
         format: "umd",
         name: "Cmi5",
+        exports: "default",
       },
+    ],
+  },
+  {
+    input: input,
+    plugins: plugins,
+    output: [
       {
         file: pkg.module,
         format: "esm",
-        exports: "default",
+        // Named exports, e.g. the error classes, sit alongside the default `Cmi5` class
+        exports: "named",
       },
     ],
   },
@@ -1,26 +1,87 @@
-import axios, { AxiosPromise } from "axios";
+import axios, { AxiosError, AxiosPromise, AxiosResponse } from "axios";
 import XAPI, {
   InteractionActivityDefinition,
-  InteractionComponent,
   LanguageMap,
   ObjectiveActivity,
   ResultScore,
   Statement,
+  StatementsResponse,
+  Verb,
 } from "@xapi/xapi";
 import {
+  ActivityTrackingOptions,
+  AssessmentOptions,
+  AttemptSummary,
   AuthTokenResponse,
+  ChoiceInteractionOptions,
+  Cmi5EventListener,
+  Cmi5EventMap,
+  FillInInteractionOptions,
+  InteractionOptions,
   LaunchData,
+  LaunchModePolicy,
   LaunchParameters,
   LearnerPreferences,
+  LikertInteractionOptions,
+  LocalizedInteractionComponent,
+  LocalizedText,
+  LongFillInInteractionOptions,
+  MatchingInteractionOptions,
   MoveOnOptions,
+  MoveOnResult,
   NumericCriteria,
+  NumericInteractionOptions,
+  ObjectiveDefinition,
+  ObjectiveStatus,
+  OtherInteractionOptions,
   PassOptions,
+  PauseReason,
+  PersistedSession,
+  ProgressTrackingOptions,
   Performance,
   PerformanceCriteria,
+  PerformanceInteractionOptions,
   Period,
   SendStatementOptions,
+  SequencingInteractionOptions,
+  SessionState,
+  SessionStore,
+  StateSaveOptions,
+  StatementMiddleware,
+  StatementQueueOptions,
+  StatementQueueStatus,
+  TrueFalseInteractionOptions,
 } from "./interfaces";
-import { Cmi5DefinedVerbs } from "./constants";
+import {
+  Cmi5ContextActivity,
+  Cmi5ContextExtension,
+  Cmi5DefinedVerbs,
+  Cmi5FetchErrorCode,
+  Cmi5StateId,
+} from "./constants";
+import {
+  Cmi5ConcurrencyError,
+  Cmi5Error,
+  Cmi5FetchError,
+  Cmi5LaunchDataError,
+  Cmi5LaunchModeError,
+  Cmi5LaunchParameterError,
+  Cmi5SessionStateError,
+  Cmi5ValidationError,
+} from "./errors";
+import { toLrsError } from "./errors/toLrsError";
+import { ActivityTracker } from "./activity";
+import { Assessment } from "./assessment";
+import { parseLanguagePreference, resolveLanguageMap } from "./language";
+import { ObjectiveRegistry } from "./objectives";
+import { ProgressTracker } from "./progress";
+import { StatementQueue } from "./queue";
+import { StateDocument } from "./state";
+import { sessionKey } from "./registry/sessionKey";
+import { WebStorageSessionStore } from "./session";
+import { EventEmitter } from "./events";
+import { validateCmi5Statement, validateLaunchData } from "./validation";
+import { isMoveOnSatisfied, summarizeAttempts } from "./summary";
 import {
   Cmi5CompleteStatement,
   Cmi5DefinedStatement,
@@ -38,8 +99,11 @@ import {
   Cmi5InteractionTrueFalseStatement,
   Cmi5MoveOnStatements,
   Cmi5MoveOnStatementSendOptions,
+  Cmi5ObjectiveStatement,
   Cmi5PassStatement,
   Cmi5ProgressStatement,
+  Cmi5ResumeStatement,
+  Cmi5SuspendStatement,
   Cmi5TerminateStatement,
 } from "./Cmi5Statements";
 
@@ -54,6 +118,111 @@ function _applyTransform(
     : mergedStatement;
 }
 
+// 8.1 Launch Method - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#81-launch-method
+const REQUIRED_LAUNCH_PARAMETERS: (keyof LaunchParameters)[] = [
+  "fetch",
+  "endpoint",
+  "actor",
+  "activityId",
+  "registration",
+];
+
+// 11.0 xAPI Agent Profile Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#110-xapi-agent-profile-data-model
+const LEARNER_PREFERENCES_PROFILE_ID = "cmi5LearnerPreferences";
+
+const FETCH_URL_USED_KEY_PREFIX = "cmi5.fetchUrlUsed.";
+
+// The fetch URL may only be called once, so remember its use for the rest of the browser session
+function _sessionStorage(): Storage | null {
+  try {
+    return typeof window === "object" && window.sessionStorage
+      ? window.sessionStorage
+      : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+function _isFetchUrlUsed(fetchUrl: string): boolean {
+  return Boolean(
+    _sessionStorage()?.getItem(FETCH_URL_USED_KEY_PREFIX + fetchUrl)
+  );
+}
+
+function _markFetchUrlUsed(fetchUrl: string): void {
+  _sessionStorage()?.setItem(
+    FETCH_URL_USED_KEY_PREFIX + fetchUrl,
+    new Date().toISOString()
+  );
+}
+
+// Resolved in place of an LRS response when a statement was not sent, e.g. vetoed by middleware
+function _skippedResponse(): AxiosResponse<string[]> {
+  return {
+    data: [],
+    status: 204,
+    statusText: "No Content",
+    headers: {},
+    config: {},
+  } as AxiosResponse<string[]>;
+}
+
+// Rejects with errors thrown before the send starts, so callers handle every error through the promise
+function _rejectOnThrow<T>(send: () => Promise<T>): Promise<T> {
+  try {
+    return send();
+  } catch (err) {
+    return Promise.reject(err);
+  }
+}
+
+// 9.6.3.3 launchMode - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9633-launchmode
+function _tagLaunchMode(
+  statement: Statement,
+  launchMode: LaunchData["launchMode"]
+): Statement {
+  return {
+    ...statement,
+    context: {
+      ...statement.context,
+      extensions: {
+        ...statement.context?.extensions,
+        [Cmi5ContextExtension.LAUNCH_MODE]: launchMode,
+      },
+    },
+  };
+}
+
+function _definedVerbName(verb: Verb): string | undefined {
+  return Object.keys(Cmi5DefinedVerbs).find(
+    (name) => Cmi5DefinedVerbs[name].id === verb.id
+  );
+}
+
+function _cmi5DefinedVerbName(statement: Statement): string | undefined {
+  // 9.6.2.1 cmi5 Category Activity - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9621-cmi5-category-activity
+  const category = statement.context?.contextActivities?.category;
+  const isCmi5Defined =
+    Array.isArray(category) &&
+    category.some((activity) => activity.id === Cmi5ContextActivity.CMI5.id);
+  return isCmi5Defined ? _definedVerbName(statement.verb) : undefined;
+}
+
+// 9.3 Verbs - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#93-verbs
+function _definedVerbConflict(
+  verbName: string,
+  sentVerbNames: Set<string>
+): string | undefined {
+  if (sentVerbNames.has(verbName)) {
+    return `${verbName} has already been sent`;
+  } else if (verbName === "PASSED" && sentVerbNames.has("FAILED")) {
+    return "Cannot send PASSED after FAILED";
+  } else if (verbName === "FAILED" && sentVerbNames.has("PASSED")) {
+    return "Cannot send FAILED after PASSED";
+  }
+  return undefined;
+}
+
 /**
  * Experience API cmi5 Profile (Quartz - 1st Edition)
  * Reference: https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md
@@ -62,26 +231,35 @@ export default class AbstractCmi5 {
   private _launchParameters: LaunchParameters;
   private _launchData!: LaunchData;
   private _learnerPreferences!: LearnerPreferences;
+  // `undefined` until read or written, `null` when the profile does not exist
+  private _learnerPreferencesEtag: string | null | undefined = undefined;
   private _initializedDate!: Date;
   private _authToken: string | null = null;
   private _xapi: XAPI;
+  private _sessionState: SessionState = "uninitialized";
+  private _sentDefinedVerbs: Set<string> = new Set();
+  private _statementQueue: StatementQueue | null = null;
+  private _sessionStore: SessionStore | null = null;
+  private _middleware: StatementMiddleware[] = [];
+  private _events: EventEmitter<Cmi5EventMap> = new EventEmitter();
+  private _strictValidation = false;
+  private _launchModePolicy: LaunchModePolicy | null = null;
+  private _stateDocuments: { [stateId: string]: StateDocument<unknown> } = {};
+  private _activityTracker: ActivityTracker | null = null;
+  // Active time before this page when resuming a session, null after a fresh initialize
+  private _resumedActiveDuration: number | null = null;
+  private _progressTracker: ProgressTracker | null = null;
+  private _objectives: ObjectiveRegistry = new ObjectiveRegistry();
+  private _defaultLanguage: string | null = null;
+  private _sendSuspendResumeStatements = false;
 
   constructor(launchParameters: LaunchParameters) {
     this._launchParameters = launchParameters;
-    if (!this._launchParameters.fetch) {
-      throw Error("Unable to construct, no `fetch` parameter found in URL.");
-    } else if (!this._launchParameters.endpoint) {
-      throw Error("Unable to construct, no `endpoint` parameter found in URL");
-    } else if (!this._launchParameters.actor) {
-      throw Error("Unable to construct, no `actor` parameter found in URL.");
-    } else if (!this._launchParameters.activityId) {
-      throw Error(
-        "Unable to construct, no `activityId` parameter found in URL."
-      );
-    } else if (!this._launchParameters.registration) {
-      throw Error(
-        "Unable to construct, no `registration` parameter found in URL."
-      );
+    const missingParameter = REQUIRED_LAUNCH_PARAMETERS.find(
+      (parameter) => !this._launchParameters[parameter]
+    );
+    if (missingParameter) {
+      throw new Cmi5LaunchParameterError(missingParameter);
     }
   }
 
@@ -101,6 +279,17 @@ export default class AbstractCmi5 {
     return this._launchParameters;
   }
 
+  public get sessionKey(): string {
+    return sessionKey(
+      this._launchParameters.registration,
+      this._launchParameters.activityId
+    );
+  }
+
+  public getSessionKey(): string {
+    return this.sessionKey;
+  }
+
   public get launchData(): LaunchData {
     return this._launchData;
   }
@@ -122,342 +311,1679 @@ export default class AbstractCmi5 {
     return this._initializedDate;
   }
 
+  // Milliseconds of active time, or null when activity tracking is not enabled
+  public get activeDuration(): number | null {
+    return this._activityTracker?.isStarted
+      ? this._activityTracker.getActiveTime()
+      : null;
+  }
+
+  public getActiveDuration(): number | null {
+    return this.activeDuration;
+  }
+
+  // Registered objectives by key
+  public get objectiveActivities(): { [key: string]: ObjectiveActivity } {
+    return this._objectives.getActivities();
+  }
+
+  public getObjectiveActivities(): { [key: string]: ObjectiveActivity } {
+    return this.objectiveActivities;
+  }
+
+  // Objectives with an objective PASSED statement, carried by the AU's PASSED statement
+  public get satisfiedObjectives(): ObjectiveActivity[] {
+    return this._objectives.getSatisfied();
+  }
+
+  public getSatisfiedObjectives(): ObjectiveActivity[] {
+    return this.satisfiedObjectives;
+  }
+
+  public get isPaused(): boolean {
+    return Boolean(this._activityTracker?.isPaused);
+  }
+
+  public get sessionState(): SessionState {
+    return this._sessionState;
+  }
+
+  public getSessionState(): SessionState {
+    return this._sessionState;
+  }
+
+  public get isNormalMode(): boolean {
+    return this._launchData?.launchMode === "Normal";
+  }
+
+  public get isBrowseMode(): boolean {
+    return this._launchData?.launchMode === "Browse";
+  }
+
+  public get isReviewMode(): boolean {
+    return this._launchData?.launchMode === "Review";
+  }
+
+  public get launchModePolicy(): LaunchModePolicy | null {
+    return this._launchModePolicy;
+  }
+
+  public getLaunchModePolicy(): LaunchModePolicy | null {
+    return this._launchModePolicy;
+  }
+
+  public setLaunchModePolicy(policy: LaunchModePolicy): void {
+    this._launchModePolicy = policy;
+  }
+
+  public getSentDefinedVerbs(): Verb[] {
+    return Array.from(this._sentDefinedVerbs).map(
+      (name) => Cmi5DefinedVerbs[name]
+    );
+  }
+
+  public canSend(verb: Verb): boolean {
+    return !this._sendConflict(verb, _definedVerbName(verb));
+  }
+
   // 11.0 xAPI Agent Profile Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#110-xapi-agent-profile-data-model
   public getLearnerPreferences(): LearnerPreferences {
     return this._learnerPreferences;
   }
 
+  // The learner's languagePreference as language tags, most preferred first
+  public get languagePreferences(): string[] {
+    return parseLanguagePreference(
+      this._learnerPreferences?.languagePreference
+    );
+  }
+
+  public getLanguagePreferences(): string[] {
+    return this.languagePreferences;
+  }
+
+  // Language of names and descriptions given as plain strings, the learner's preferred language unless set
+  public get defaultLanguage(): string {
+    return this._defaultLanguage || this.languagePreferences[0] || "und";
+  }
+
+  public getDefaultLanguage(): string {
+    return this.defaultLanguage;
+  }
+
+  public setDefaultLanguage(language: string | null): void {
+    this._defaultLanguage = language;
+  }
+
+  // The string in the language that best matches the learner's languagePreference
+  public resolveLanguageMap(languageMap: LanguageMap): string | undefined {
+    return resolveLanguageMap(languageMap, [
+      ...this.languagePreferences,
+      this.defaultLanguage,
+    ]);
+  }
+
+  // 11.0 xAPI Agent Profile Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#110-xapi-agent-profile-data-model
+  public async setLearnerPreferences(
+    learnerPreferences: LearnerPreferences
+  ): Promise<void> {
+    if (!this._xapi) {
+      throw new Cmi5SessionStateError(
+        "Can only set learner preferences once initialized",
+        this._sessionState
+      );
+    }
+    if (this._learnerPreferencesEtag === undefined) {
+      this._learnerPreferences = await this.getLearnerPreferencesFromLMS();
+    }
+    const previous = this._learnerPreferences || {};
+    const updated: LearnerPreferences = { ...previous, ...learnerPreferences };
+    try {
+      const response = await this._xapi.setAgentProfile({
+        agent: this._launchParameters.actor,
+        profileId: LEARNER_PREFERENCES_PROFILE_ID,
+        profile: updated,
+        etag:
+          this._learnerPreferencesEtag === null
+            ? "*"
+            : this._learnerPreferencesEtag,
+        matchHeader:
+          this._learnerPreferencesEtag === null ? "If-None-Match" : "If-Match",
+      });
+      this._learnerPreferencesEtag = response.headers?.etag || undefined;
+    } catch (err) {
+      const status = (err as AxiosError)?.response?.status;
+      if (status === 409 || status === 412) {
+        this._learnerPreferencesEtag = undefined;
+        throw new Cmi5ConcurrencyError(
+          "Learner preferences were changed by another session",
+          (err as AxiosError).response,
+          err
+        );
+      }
+      throw toLrsError(err, "Unable to set learner preferences");
+    }
+    this._learnerPreferences = updated;
+    await this._persistSession();
+    this._events.emit("learnerPreferencesChanged", {
+      learnerPreferences: updated,
+      previous,
+    });
+  }
+
+  // Applied, in order of registration, to every outgoing statement
+  public use(middleware: StatementMiddleware): () => void {
+    this._middleware = [...this._middleware, middleware];
+    return () => {
+      this._middleware = this._middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  // Rejects statements that do not conform to cmi5 instead of sending them, unless `strict: false` is passed
+  public enableStrictValidation(): void {
+    this._strictValidation = true;
+  }
+
+  public disableStrictValidation(): void {
+    this._strictValidation = false;
+  }
+
+  public on<K extends keyof Cmi5EventMap>(
+    type: K,
+    listener: Cmi5EventListener<K>
+  ): () => void {
+    return this._events.on(type, listener);
+  }
+
+  public off<K extends keyof Cmi5EventMap>(
+    type: K,
+    listener: Cmi5EventListener<K>
+  ): void {
+    this._events.off(type, listener);
+  }
+
+  // Detaches listeners and middleware so the instance can be discarded, saving any debounced state first
+  public dispose(): void {
+    this.disableActivityTracking();
+    this.disableProgressTracking();
+    this.flushState().catch(() => undefined);
+    this._events = new EventEmitter();
+    this._middleware = [];
+  }
+
   // "cmi5 defined" Statements
   public async initialize(sessionState?: {
     authToken: string;
     initializedDate: Date;
   }): AxiosPromise<string[] | void> {
-    // Best Practice #17 – Persist AU Session State - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
-    const authToken = sessionState
-      ? sessionState.authToken
-      : await this.getAuthTokenFromLMS(this._launchParameters.fetch);
-    this._authToken = authToken;
-    this._xapi = new XAPI({
-      endpoint: this._launchParameters.endpoint,
-      auth: `Basic ${authToken}`,
-    });
-    this._launchData = await this.getLaunchDataFromLMS();
-    this._learnerPreferences = await this.getLearnerPreferencesFromLMS();
-
-    if (sessionState) {
+    if (this._sessionState !== "uninitialized") {
+      throw new Cmi5SessionStateError(
+        "Can only initialize when sessionState is 'uninitialized'",
+        this._sessionState
+      );
+    }
+    this._sessionState = "initializing";
+    try {
+      // The fetch URL can only be used once, so a reloaded page resumes the persisted session instead
+      if (!sessionState && (await this.resumePersistedSession())) {
+        this._initialized(true);
+        return;
+      }
       // Best Practice #17 – Persist AU Session State - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
-      this._initializedDate = sessionState.initializedDate;
+      const authToken = sessionState
+        ? sessionState.authToken
+        : await this.getAuthTokenFromLMS(this._launchParameters.fetch);
+      this._authenticate(authToken);
+      this._launchData = await this.getLaunchDataFromLMS();
+      try {
+        this._learnerPreferences = await this.getLearnerPreferencesFromLMS();
+      } catch (err) {
+        // The fetch URL is spent by now, so failing here would leave the session unable to initialize again;
+        // the preferences are read again before they are next written
+        this._learnerPreferences = {};
+        this._events.emit("error", { error: err });
+      }
+
+      if (sessionState) {
+        // Best Practice #17 – Persist AU Session State - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+        this._initializedDate = sessionState.initializedDate;
+        this._resumedActiveDuration = 0;
+        this._sentDefinedVerbs.add("INITIALIZED");
+        this._sessionState = "active";
+        await this._persistSession();
+        this._initialized(true);
+      } else {
+        this._initializedDate = new Date();
+        // 9.3.2 Initialized - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#932-initialized
+        const statement = Cmi5DefinedStatement(this, {
+          verb: Cmi5DefinedVerbs.INITIALIZED,
+        });
+        const response = await this.sendXapiStatement(statement);
+        this._sessionState = "active";
+        await this._persistSession();
+        this._initialized(false);
+        return response;
+      }
+    } catch (err) {
+      this._sessionState = "uninitialized";
+      this._events.emit("error", { error: err });
+      throw err;
+    }
+  }
+
+  private _initialized(resumed: boolean): void {
+    this._startActivityTracking();
+    this._events.emit("initialized", { resumed });
+  }
+
+  // Only a fresh session counts the time since initialize, a resumed one continues from its active time
+  private _startActivityTracking(): void {
+    if (this._resumedActiveDuration === null) {
+      this._activityTracker?.start(this._initializedDate);
     } else {
-      this._initializedDate = new Date();
-      // 9.3.2 Initialized - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#932-initialized
-      const statement = Cmi5DefinedStatement(this, {
-        verb: Cmi5DefinedVerbs.INITIALIZED,
-      });
-      return this.sendXapiStatement(statement);
+      this._activityTracker?.start(new Date(), this._resumedActiveDuration);
     }
   }
 
   public complete(options?: SendStatementOptions): AxiosPromise<string[]> {
-    const statement = Cmi5CompleteStatement(this);
-    return this.sendXapiStatement(statement, options);
+    return this._sendInLaunchMode(
+      Cmi5DefinedVerbs.COMPLETED,
+      () => Cmi5CompleteStatement(this),
+      options
+    );
   }
 
   public pass(
     score?: ResultScore | number,
     objectiveOrOptions?: ObjectiveActivity | PassOptions
   ): AxiosPromise<string[]> {
-    const statement = Cmi5PassStatement(this, score, objectiveOrOptions);
-    return this.sendXapiStatement(statement, objectiveOrOptions as PassOptions);
+    return this._sendInLaunchMode(
+      Cmi5DefinedVerbs.PASSED,
+      () => Cmi5PassStatement(this, score, objectiveOrOptions),
+      objectiveOrOptions as PassOptions
+    );
   }
 
   public fail(
     score?: ResultScore | number,
     options?: SendStatementOptions
   ): AxiosPromise<string[]> {
-    const statement = Cmi5FailStatement(this, score);
-    return this.sendXapiStatement(statement, options);
+    return this._sendInLaunchMode(
+      Cmi5DefinedVerbs.FAILED,
+      () => Cmi5FailStatement(this, score),
+      options
+    );
   }
 
-  public terminate(): AxiosPromise<string[]> {
-    const statement = Cmi5TerminateStatement(this);
-    return this.sendXapiStatement(statement);
+  // Best Practice #1 - Use of Objectives - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+  public registerObjectives(objectives: {
+    [key: string]: ObjectiveDefinition;
+  }): void {
+    this._objectives.register(objectives);
+  }
+
+  public getObjectiveStatus(key: string): ObjectiveStatus {
+    return this._objectives.getStatus(key);
+  }
+
+  public passObjective(
+    key: string,
+    score?: ResultScore | number,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    return this._sendObjectiveResult(key, true, score, options);
+  }
+
+  public failObjective(
+    key: string,
+    score?: ResultScore | number,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    return this._sendObjectiveResult(key, false, score, options);
+  }
+
+  // Passes or fails the objective by comparing the score of its interactions to its masteryScore
+  public evaluateObjective(
+    key: string,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    return _rejectOnThrow(() => {
+      const masteryScore = this._objectives.getMasteryScore(key);
+      if (typeof masteryScore !== "number") {
+        throw new Cmi5Error(`Objective "${key}" has no masteryScore`);
+      }
+      const score = this._objectives.getScore(key);
+      if (!score) {
+        throw new Cmi5Error(`Objective "${key}" has no scored interactions`);
+      }
+      return this._sendObjectiveResult(
+        key,
+        score.scaled >= masteryScore,
+        score,
+        options
+      );
+    });
+  }
+
+  private _sendObjectiveResult(
+    key: string,
+    success: boolean,
+    score?: ResultScore | number,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    return _rejectOnThrow(() => {
+      const objective = this._objectives.getActivity(key);
+      const verb = success ? XAPI.Verbs.PASSED : XAPI.Verbs.FAILED;
+      // An allowed statement, so it is not ordered against the AU's own PASSED or FAILED
+      const verbName = `${_definedVerbName(verb)} objective`;
+      this._assertCanSend(verb, verbName);
+      if (this._launchModeHandling(verb, verbName) === "skip") {
+        return Promise.resolve(_skippedResponse());
+      }
+      return this.sendXapiStatement(
+        Cmi5ObjectiveStatement(this, objective, success, score),
+        options
+      ).then((response) => {
+        // A result vetoed by middleware does not satisfy the objective
+        if (response.data.length) {
+          this._objectives.setSatisfied(key, success);
+        }
+        return response;
+      });
+    });
+  }
+
+  public terminate(options?: SendStatementOptions): AxiosPromise<string[]> {
+    return _rejectOnThrow(() => {
+      this._assertCanSend(Cmi5DefinedVerbs.TERMINATED);
+      if (this._progressTracker?.hasPending) {
+        return this._flushProgressBeforeExit().then(() =>
+          this.terminate(options)
+        );
+      }
+      const statement = Cmi5TerminateStatement(this);
+      return this.sendXapiStatement(statement, options);
+    });
   }
 
   // "cmi5 allowed" Statements
-  public progress(percent: number): AxiosPromise<string[]> {
-    const statement = Cmi5ProgressStatement(this, percent);
-    return this.sendXapiStatement(statement);
+  public progress(
+    percent: number,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    if (this._progressTracker) {
+      return _rejectOnThrow(() => {
+        this._assertCanSend(XAPI.Verbs.PROGRESSED);
+        this._launchModeHandling(XAPI.Verbs.PROGRESSED);
+        return this._progressTracker
+          .report(percent, options)
+          .then((response) => response || _skippedResponse());
+      });
+    }
+    return this._sendInLaunchMode(
+      XAPI.Verbs.PROGRESSED,
+      () => Cmi5ProgressStatement(this, percent),
+      options
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionTrueFalse(
+    options: TrueFalseInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionTrueFalse(
     testId: string,
     questionId: string,
     answer: boolean,
     correctAnswer?: boolean,
-    name?: LanguageMap,
-    description?: LanguageMap,
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionTrueFalse(
+    testIdOrOptions: string | TrueFalseInteractionOptions,
+    questionId?: string,
+    answer?: boolean,
+    correctAnswer?: boolean,
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionTrueFalseStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionTrueFalseStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answer,
+            correctAnswer,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionTrueFalseStatement(this, testIdOrOptions)
+    );
   }
-  /* eslint-enable @typescript-eslint/no-unused-vars */
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionChoice(
+    options: ChoiceInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionChoice(
     testId: string,
     questionId: string,
     answerIds: string[],
     correctAnswerIds?: string[],
-    choices?: InteractionComponent[],
-    name?: LanguageMap,
-    description?: LanguageMap,
+    choices?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionChoice(
+    testIdOrOptions: string | ChoiceInteractionOptions,
+    questionId?: string,
+    answerIds?: string[],
+    correctAnswerIds?: string[],
+    choices?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionChoiceStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionChoiceStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answerIds,
+            correctAnswerIds,
+            choices,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionChoiceStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionFillIn(
+    options: FillInInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionFillIn(
     testId: string,
     questionId: string,
     answers: string[],
     correctAnswers?: string[],
-    name?: LanguageMap,
-    description?: LanguageMap,
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionFillIn(
+    testIdOrOptions: string | FillInInteractionOptions,
+    questionId?: string,
+    answers?: string[],
+    correctAnswers?: string[],
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionFillInStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionFillInStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answers,
+            correctAnswers,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionFillInStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionLongFillIn(
+    options: LongFillInInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionLongFillIn(
     testId: string,
     questionId: string,
     answers: string[],
     correctAnswers?: string[],
-    name?: LanguageMap,
-    description?: LanguageMap,
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionLongFillIn(
+    testIdOrOptions: string | LongFillInInteractionOptions,
+    questionId?: string,
+    answers?: string[],
+    correctAnswers?: string[],
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionLongFillInStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionLongFillInStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answers,
+            correctAnswers,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionLongFillInStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionLikert(
+    options: LikertInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionLikert(
     testId: string,
     questionId: string,
     answerId: string,
     correctAnswerId?: string,
-    scale?: InteractionComponent[],
-    name?: LanguageMap,
-    description?: LanguageMap,
+    scale?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionLikert(
+    testIdOrOptions: string | LikertInteractionOptions,
+    questionId?: string,
+    answerId?: string,
+    correctAnswerId?: string,
+    scale?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionLikertStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionLikertStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answerId,
+            correctAnswerId,
+            scale,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionLikertStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionMatching(
+    options: MatchingInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionMatching(
     testId: string,
     questionId: string,
     answers: { [sourceId: string]: string },
     correctAnswers?: { [sourceId: string]: string },
-    source?: InteractionComponent[],
-    target?: InteractionComponent[],
-    name?: LanguageMap,
-    description?: LanguageMap,
+    source?: LocalizedInteractionComponent[],
+    target?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionMatching(
+    testIdOrOptions: string | MatchingInteractionOptions,
+    questionId?: string,
+    answers?: { [sourceId: string]: string },
+    correctAnswers?: { [sourceId: string]: string },
+    source?: LocalizedInteractionComponent[],
+    target?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionMatchingStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionMatchingStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answers,
+            correctAnswers,
+            source,
+            target,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionMatchingStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionPerformance(
+    options: PerformanceInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionPerformance(
     testId: string,
     questionId: string,
     answers: Performance,
     correctAnswers?: PerformanceCriteria[],
-    steps?: InteractionComponent[],
-    name?: LanguageMap,
-    description?: LanguageMap,
+    steps?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionPerformance(
+    testIdOrOptions: string | PerformanceInteractionOptions,
+    questionId?: string,
+    answers?: Performance,
+    correctAnswers?: PerformanceCriteria[],
+    steps?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionPerformanceStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionPerformanceStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answers,
+            correctAnswers,
+            steps,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionPerformanceStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionSequencing(
+    options: SequencingInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionSequencing(
     testId: string,
     questionId: string,
     answerIds: string[],
     correctAnswerIds: string[],
-    choices?: InteractionComponent[],
-    name?: LanguageMap,
-    description?: LanguageMap,
+    choices?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionSequencing(
+    testIdOrOptions: string | SequencingInteractionOptions,
+    questionId?: string,
+    answerIds?: string[],
+    correctAnswerIds?: string[],
+    choices?: LocalizedInteractionComponent[],
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionSequencingStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionSequencingStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answerIds,
+            correctAnswerIds,
+            choices,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionSequencingStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionNumeric(
+    options: NumericInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionNumeric(
     testId: string,
     questionId: string,
     answer: number,
     correctAnswer: NumericCriteria,
-    name?: LanguageMap,
-    description?: LanguageMap,
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionNumeric(
+    testIdOrOptions: string | NumericInteractionOptions,
+    questionId?: string,
+    answer?: number,
+    correctAnswer?: NumericCriteria,
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionNumericStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionNumericStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answer,
+            correctAnswer,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionNumericStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interactionOther(
+    options: OtherInteractionOptions
+  ): AxiosPromise<string[]>;
   public interactionOther(
     testId: string,
     questionId: string,
     answer: string,
     correctAnswer: string,
-    name?: LanguageMap,
-    description?: LanguageMap,
+    name?: LocalizedText,
+    description?: LocalizedText,
     success?: boolean,
     duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interactionOther(
+    testIdOrOptions: string | OtherInteractionOptions,
+    questionId?: string,
+    answer?: string,
+    correctAnswer?: string,
+    name?: LocalizedText,
+    description?: LocalizedText,
+    success?: boolean,
+    duration?: Period,
+    objective?: ObjectiveActivity | string
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionOtherStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionOtherStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            answer,
+            correctAnswer,
+            name,
+            description,
+            success,
+            duration,
+            objective
+          )
+        : Cmi5InteractionOtherStatement(this, testIdOrOptions)
+    );
   }
 
-  /* eslint-disable @typescript-eslint/no-unused-vars */
+  public interaction(options: InteractionOptions): AxiosPromise<string[]>;
   public interaction(
     testId: string,
     questionId: string,
     response: string,
     interactionDefinition: InteractionActivityDefinition,
     success?: boolean,
-    duration?: Period,
-    objective?: ObjectiveActivity
-    /* eslint-enable @typescript-eslint/no-unused-vars */
+    period?: Period,
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]>;
+  public interaction(
+    testIdOrOptions: string | InteractionOptions,
+    questionId?: string,
+    response?: string,
+    interactionDefinition?: InteractionActivityDefinition,
+    success?: boolean,
+    period?: Period,
+    objective?: ObjectiveActivity | string
+  ): AxiosPromise<string[]> {
+    return this._sendInteraction(testIdOrOptions, () =>
+      typeof testIdOrOptions === "string"
+        ? Cmi5InteractionStatement(
+            this,
+            testIdOrOptions,
+            questionId,
+            response,
+            interactionDefinition,
+            success,
+            period,
+            objective
+          )
+        : Cmi5InteractionStatement(this, testIdOrOptions)
+    );
+  }
+
+  // Sends an ANSWERED statement built by one of the `Cmi5Interaction*Statement` builders
+  public sendInteractionStatement(
+    statement: Statement,
+    options?: SendStatementOptions
   ): AxiosPromise<string[]> {
-    /* eslint-disable prefer-rest-params */
-    // @ts-expect-error TS doesn't like spreading arguments
-    const statement = Cmi5InteractionStatement(this, ...arguments);
-    /* eslint-enable prefer-rest-params */
-    return this.sendXapiStatement(statement);
+    return this._sendAnswer(() => statement, options);
   }
 
-  public async moveOn(options?: MoveOnOptions): Promise<string[]> {
-    const moveOnStatements = Cmi5MoveOnStatements(this, options);
+  // Records and scores the questions of one test, see `Assessment`
+  public createAssessment(
+    testId: string,
+    options?: AssessmentOptions
+  ): Assessment {
+    return new Assessment(this, testId, options);
+  }
+
+  private _sendInteraction(
+    testIdOrOptions: string | SendStatementOptions,
+    buildStatement: () => Statement
+  ): AxiosPromise<string[]> {
+    return this._sendAnswer(
+      buildStatement,
+      typeof testIdOrOptions === "string" ? undefined : testIdOrOptions
+    );
+  }
+
+  // Objectives are only credited with answers the LRS accepted, not ones skipped or vetoed by middleware
+  private _sendAnswer(
+    buildStatement: () => Statement,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    let statement: Statement | null = null;
+    return this._sendInLaunchMode(
+      XAPI.Verbs.ANSWERED,
+      () => (statement = buildStatement()),
+      options
+    ).then((response) => {
+      if (statement && response.data.length) {
+        this._objectives.record(statement);
+      }
+      return response;
+    });
+  }
+
+  public async moveOn(options?: MoveOnOptions): Promise<MoveOnResult> {
+    this._assertCanSend(Cmi5DefinedVerbs.TERMINATED);
+    await this._flushProgressBeforeExit();
+    // Outside of Normal mode only TERMINATED is sent, unless the launch mode policy throws
+    const statements =
+      this._launchModeHandling(
+        Cmi5DefinedVerbs.COMPLETED,
+        "moveOn statements"
+      ) === "send"
+        ? Cmi5MoveOnStatements(this, options)
+        : options?.disableSendTerminated
+          ? []
+          : [Cmi5TerminateStatement(this)];
+    // Defined statements already sent this session (e.g. an earlier `complete()`) are not sent again
+    const moveOnStatements = statements.filter(
+      (statement) =>
+        !this._sentDefinedVerbs.has(_definedVerbName(statement.verb))
+    );
     const sendOptions = Cmi5MoveOnStatementSendOptions(this, options);
+    if (options?.batch) {
+      const response = await this.sendXapiStatements(
+        moveOnStatements,
+        sendOptions
+      );
+      return this._moveOnResult(
+        response.data,
+        moveOnStatements.filter((statement) =>
+          response.data.includes(statement.id)
+        )
+      );
+    }
+    // Statements vetoed by middleware resolve without ids and are left out of the result
     const newStatementIds: string[] = [];
+    const sentStatements: Statement[] = [];
     for (const statement of moveOnStatements) {
-      await this.sendXapiStatement(statement, sendOptions);
-      newStatementIds.push(statement.id);
+      const response = await this.sendXapiStatement(statement, sendOptions);
+      if (response.data.length) {
+        newStatementIds.push(...response.data);
+        sentStatements.push(statement);
+      }
+    }
+    return this._moveOnResult(newStatementIds, sentStatements);
+  }
+
+  private _moveOnResult(
+    statementIds: string[],
+    statements: Statement[]
+  ): MoveOnResult {
+    const completed = this._sentDefinedVerbs.has("COMPLETED");
+    const passed = this._sentDefinedVerbs.has("PASSED");
+    return {
+      statementIds,
+      verbs: statements.map((statement) => statement.verb),
+      completed,
+      passed,
+      failed: this._sentDefinedVerbs.has("FAILED"),
+      satisfied: isMoveOnSatisfied(this._launchData.moveOn, completed, passed),
+    };
+  }
+
+  // Reads this registration's statements for the AU, e.g. to skip content the learner has already passed
+  public async getAttemptSummary(): Promise<AttemptSummary> {
+    if (!this._xapi || !this._launchData) {
+      throw new Cmi5SessionStateError(
+        "Can only get the attempt summary once initialized",
+        this._sessionState
+      );
+    }
+    const statements: Statement[] = [];
+    try {
+      let response = await this._xapi.getStatements({
+        agent: this._launchParameters.actor,
+        registration: this._launchParameters.registration,
+        activity: this._launchParameters.activityId,
+      });
+      statements.push(...response.data.statements);
+      while (response.data.more) {
+        // Attachments were not requested, so the response is never multipart
+        response = (await this._xapi.getMoreStatements({
+          more: response.data.more,
+        })) as AxiosResponse<StatementsResponse>;
+        statements.push(...response.data.statements);
+      }
+    } catch (err) {
+      throw toLrsError(err, "Unable to get statements");
+    }
+    return summarizeAttempts(this, statements);
+  }
+
+  // Resume data is kept in the State API for this actor, AU and registration
+  public getBookmark(): Promise<string | null> {
+    return _rejectOnThrow(() =>
+      this._stateDocument<string>(Cmi5StateId.BOOKMARK).get()
+    );
+  }
+
+  public setBookmark(
+    bookmark: string,
+    options?: StateSaveOptions
+  ): Promise<void> {
+    return this._saveState(Cmi5StateId.BOOKMARK, bookmark, options);
+  }
+
+  public getSuspendData<T>(): Promise<T | null> {
+    return _rejectOnThrow(() =>
+      this._stateDocument<T>(Cmi5StateId.SUSPEND_DATA).get()
+    );
+  }
+
+  public setSuspendData<T>(data: T, options?: StateSaveOptions): Promise<void> {
+    return this._saveState(Cmi5StateId.SUSPEND_DATA, data, options);
+  }
+
+  // Writes any debounced bookmark or suspend data immediately, e.g. before terminating
+  public async flushState(): Promise<void> {
+    await Promise.all(
+      Object.keys(this._stateDocuments).map((stateId) =>
+        this._stateDocuments[stateId].flush()
+      )
+    );
+  }
+
+  private _saveState<T>(
+    stateId: string,
+    value: T,
+    options?: StateSaveOptions
+  ): Promise<void> {
+    return _rejectOnThrow(() => {
+      const document = this._stateDocument<T>(stateId);
+      return options?.debounce !== undefined
+        ? document.save(value, options.debounce)
+        : document.set(value);
+    });
+  }
+
+  private _stateDocument<T>(stateId: string): StateDocument<T> {
+    if (!this._xapi) {
+      throw new Cmi5SessionStateError(
+        `Can only access ${stateId} once initialized`,
+        this._sessionState
+      );
+    }
+    if (!this._stateDocuments[stateId]) {
+      this._stateDocuments[stateId] = new StateDocument(this._xapi, {
+        agent: this._launchParameters.actor,
+        activityId: this._launchParameters.activityId,
+        registration: this._launchParameters.registration,
+        stateId,
+      });
+    }
+    return this._stateDocuments[stateId] as StateDocument<T>;
+  }
+
+  // Rounds progress and sends it only when it increases enough, at most once per interval
+  public enableProgressTracking(options: ProgressTrackingOptions = {}): void {
+    this.disableProgressTracking();
+    this._progressTracker = new ProgressTracker(
+      (percent, sendOptions) =>
+        this._sendInLaunchMode(
+          XAPI.Verbs.PROGRESSED,
+          () => Cmi5ProgressStatement(this, percent),
+          sendOptions
+        ),
+      options
+    );
+  }
+
+  public disableProgressTracking(): void {
+    if (this._progressTracker) {
+      this._progressTracker.stop();
+      this._progressTracker = null;
+    }
+  }
+
+  // The latest progress reported, including any not yet sent
+  public get progressPercent(): number | null {
+    return this._progressTracker ? this._progressTracker.percent : null;
+  }
+
+  public getProgressPercent(): number | null {
+    return this.progressPercent;
+  }
+
+  public setProgressSections(sectionIds: string[]): void {
+    this._assertProgressTracking().setSections(sectionIds);
+  }
+
+  // Reports progress as the share of required sections completed
+  public completeSection(
+    sectionId: string,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    return _rejectOnThrow(() => {
+      const tracker = this._assertProgressTracking();
+      this._assertCanSend(XAPI.Verbs.PROGRESSED);
+      this._launchModeHandling(XAPI.Verbs.PROGRESSED);
+      return tracker
+        .completeSection(sectionId, options)
+        .then((response) => response || _skippedResponse());
+    });
+  }
+
+  public async flushProgress(): Promise<void> {
+    if (this._progressTracker) {
+      await this._progressTracker.flush();
+    }
+  }
+
+  private _assertProgressTracking(): ProgressTracker {
+    if (!this._progressTracker) {
+      throw new Cmi5Error("Progress tracking is not enabled");
+    }
+    return this._progressTracker;
+  }
+
+  // Failing to send the latest progress must not prevent the session from ending
+  private async _flushProgressBeforeExit(): Promise<void> {
+    try {
+      await this.flushProgress();
+    } catch (err) {
+      // Reported through the "statementFailed" and "error" events
+    }
+  }
+
+  // Reports active time rather than elapsed time as the duration of moveOn and TERMINATED statements
+  public enableActivityTracking(options: ActivityTrackingOptions = {}): void {
+    this.disableActivityTracking();
+    this._sendSuspendResumeStatements = Boolean(
+      options.sendSuspendResumeStatements
+    );
+    this._activityTracker = new ActivityTracker(options, (paused, reason) =>
+      this._activityChanged(paused, reason)
+    );
+    if (this._sessionState === "active") {
+      this._startActivityTracking();
+    }
+  }
+
+  public disableActivityTracking(): void {
+    if (this._activityTracker) {
+      this._activityTracker.stop();
+      this._activityTracker = null;
     }
-    return newStatementIds;
   }
 
+  // Stops counting active time until `resume()`, regardless of visibility or user input
+  public pause(): void {
+    this._assertActivityTracking().pause();
+  }
+
+  public resume(): void {
+    this._assertActivityTracking().resume();
+  }
+
+  private _assertActivityTracking(): ActivityTracker {
+    if (!this._activityTracker) {
+      throw new Cmi5Error("Activity tracking is not enabled");
+    }
+    return this._activityTracker;
+  }
+
+  private _activityChanged(paused: boolean, reason: PauseReason): void {
+    this._events.emit(paused ? "paused" : "resumed", { reason });
+    // The page may be closing, e.g. when hidden, so the active time so far is kept
+    if (paused) {
+      this._persistSession();
+    }
+    if (!this._sendSuspendResumeStatements || this._sessionState !== "active")
+      return;
+    const statement = paused
+      ? Cmi5SuspendStatement(this)
+      : Cmi5ResumeStatement(this);
+    // Failures are reported through the "statementFailed" and "error" events
+    Promise.resolve()
+      .then(() => this.sendXapiStatement(statement))
+      .catch(() => undefined);
+  }
+
+  // Opt-in durable delivery: statements are persisted and retried until the LRS accepts them
+  public async enableStatementQueue(
+    options?: StatementQueueOptions
+  ): Promise<void> {
+    const previousQueue = this._statementQueue;
+    this._statementQueue = new StatementQueue(
+      (statement) => this._xapi.sendStatement({ statement }),
+      options
+    );
+    await this._statementQueue.restore();
+    if (previousQueue) {
+      // Stopped first so the two queues never deliver the same statements at once
+      await this._statementQueue.takeOver(previousQueue);
+    }
+    this._flushStatementQueueInBackground();
+  }
+
+  public async flushStatementQueue(): Promise<void> {
+    if (this._statementQueue) {
+      await this._statementQueue.flush();
+    }
+  }
+
+  public getStatementQueueStatus(): StatementQueueStatus | null {
+    return this._statementQueue ? this._statementQueue.getStatus() : null;
+  }
+
+  // Best Practice #17 – Persist AU Session State - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+  public enableSessionPersistence(
+    store: SessionStore = new WebStorageSessionStore()
+  ): void {
+    this._sessionStore = store;
+  }
+
+  protected async resumePersistedSession(): Promise<boolean> {
+    const session = this._sessionStore
+      ? await this._sessionStore.load(this.sessionKey)
+      : null;
+    // A new launch has a new fetch URL and LMS session, even in the same registration
+    if (
+      !session ||
+      session.sessionState === "terminated" ||
+      session.fetchUrl !== this._launchParameters.fetch
+    ) {
+      return false;
+    }
+    this._authenticate(session.authToken);
+    this._launchData = session.launchData;
+    this._learnerPreferences = session.learnerPreferences;
+    this._initializedDate = new Date(session.initializedDate);
+    this._resumedActiveDuration = session.activeDuration ?? 0;
+    this._sentDefinedVerbs = new Set(session.sentDefinedVerbs);
+    this._sessionState = "active";
+    if (session.pendingStatements.length) {
+      if (!this._statementQueue) {
+        await this.enableStatementQueue();
+      }
+      await this._statementQueue.restore(session.pendingStatements);
+      this._flushStatementQueueInBackground();
+    }
+    return true;
+  }
+
+  private async _persistSession(): Promise<void> {
+    if (!this._sessionStore || !this._initializedDate) return;
+    try {
+      if (this._sessionState === "terminated") {
+        await this._sessionStore.remove(this.sessionKey);
+        return;
+      }
+      const session: PersistedSession = {
+        fetchUrl: this._launchParameters.fetch,
+        authToken: this._authToken,
+        initializedDate: this._initializedDate.toISOString(),
+        activeDuration: this.activeDuration ?? this._resumedActiveDuration,
+        launchData: this._launchData,
+        learnerPreferences: this._learnerPreferences,
+        sessionState: this._sessionState,
+        sentDefinedVerbs: Array.from(this._sentDefinedVerbs),
+        pendingStatements: this._statementQueue
+          ? this._statementQueue.getPending()
+          : [],
+      };
+      await this._sessionStore.save(this.sessionKey, session);
+    } catch (err) {
+      // Failing to persist must not prevent statements from being sent
+    }
+  }
+
+  private _authenticate(authToken: string): void {
+    this._authToken = authToken;
+    this._xapi = new XAPI({
+      endpoint: this._launchParameters.endpoint,
+      auth: `Basic ${authToken}`,
+    });
+    this._flushStatementQueueInBackground();
+  }
+
+  private _flushStatementQueueInBackground(): void {
+    if (this._statementQueue && this._xapi) {
+      this._statementQueue.flush().catch(() => undefined);
+    }
+  }
+
+  // 8.2.3 fetch - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#823-fetch
   private async getAuthTokenFromLMS(fetchUrl: string): Promise<string> {
-    const response = await axios.post<AuthTokenResponse>(fetchUrl);
-    return response.data["auth-token"];
+    if (_isFetchUrlUsed(fetchUrl)) {
+      throw new Cmi5FetchError(Cmi5FetchErrorCode.ALREADY_IN_USE);
+    }
+    try {
+      const authToken = await this._postFetchUrl(fetchUrl);
+      _markFetchUrlUsed(fetchUrl);
+      return authToken;
+    } catch (err) {
+      // Network and server errors leave the URL unused, so the launch can be retried
+      if (
+        err instanceof Cmi5FetchError &&
+        err.errorCode === Cmi5FetchErrorCode.ALREADY_IN_USE
+      ) {
+        _markFetchUrlUsed(fetchUrl);
+      }
+      throw err;
+    }
+  }
+
+  private async _postFetchUrl(fetchUrl: string): Promise<string> {
+    let data: AuthTokenResponse;
+    try {
+      const response = await axios.post<AuthTokenResponse>(fetchUrl);
+      data = response.data;
+    } catch (err) {
+      const errorData: AuthTokenResponse | undefined = err?.response?.data;
+      throw new Cmi5FetchError(
+        Number(errorData?.["error-code"]) ||
+          Cmi5FetchErrorCode.GENERAL_APPLICATION_ERROR,
+        errorData?.["error-text"],
+        err?.response,
+        err
+      );
+    }
+    if (data["error-code"] || !data["auth-token"]) {
+      throw new Cmi5FetchError(
+        Number(data["error-code"]) ||
+          Cmi5FetchErrorCode.GENERAL_APPLICATION_ERROR,
+        data["error-text"]
+      );
+    }
+    return data["auth-token"];
   }
 
   private async getLaunchDataFromLMS(): Promise<LaunchData> {
-    const launchDataResponse = await (this._xapi.getState({
-      agent: this._launchParameters.actor,
-      activityId: this._launchParameters.activityId,
-      stateId: "LMS.LaunchData",
-      registration: this._launchParameters.registration,
-    }) as AxiosPromise<LaunchData>);
-    return launchDataResponse.data;
+    let data: unknown;
+    try {
+      const launchDataResponse = await this._xapi.getState({
+        agent: this._launchParameters.actor,
+        activityId: this._launchParameters.activityId,
+        stateId: Cmi5StateId.LAUNCH_DATA,
+        registration: this._launchParameters.registration,
+      });
+      data = launchDataResponse.data;
+    } catch (err) {
+      throw toLrsError(err, "Unable to get LMS.LaunchData");
+    }
+    const { valid, launchData, errors, warnings } = validateLaunchData(data);
+    if (!valid) {
+      throw new Cmi5LaunchDataError(errors, warnings);
+    }
+    if (warnings.length) {
+      this._events.emit("launchDataWarnings", { warnings });
+    }
+    return launchData;
   }
 
   private async getLearnerPreferencesFromLMS(): Promise<LearnerPreferences> {
     try {
       const learnerPrefResponse = await (this._xapi.getAgentProfile({
         agent: this._launchParameters.actor,
-        profileId: "cmi5LearnerPreferences",
+        profileId: LEARNER_PREFERENCES_PROFILE_ID,
+        useCacheBuster: true,
       }) as AxiosPromise<LearnerPreferences>);
+      this._learnerPreferencesEtag =
+        learnerPrefResponse.headers?.etag || undefined;
       return learnerPrefResponse.data;
     } catch (err) {
-      return {};
+      // The profile only exists once preferences have been set
+      if ((err as AxiosError)?.response?.status === 404) {
+        this._learnerPreferencesEtag = null;
+        return {};
+      }
+      throw toLrsError(err, "Unable to get learner preferences");
     }
   }
 
-  public async sendXapiStatement(
+  public sendXapiStatement(
     statement: Statement,
     options?: SendStatementOptions
   ): AxiosPromise<string[]> {
-    const sendStatement = _applyTransform(statement, options);
-    return this._xapi.sendStatement({
-      statement: sendStatement,
+    return _rejectOnThrow(() => {
+      const transformed = _applyTransform(statement, options);
+      // Only defer the send when middleware is registered, so statements otherwise go out synchronously
+      if (!this._middleware.length) {
+        return this._sendStatement(transformed, options);
+      }
+      return this._applyMiddleware(transformed).then((sendStatement) =>
+        sendStatement
+          ? this._sendStatement(sendStatement, options)
+          : _skippedResponse()
+      );
     });
   }
+
+  // Sent as a single request, so the LRS either stores all of the statements or none of them
+  public async sendXapiStatements(
+    statements: Statement[],
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    const sendStatements: Statement[] = [];
+    for (const statement of statements) {
+      const sendStatement = await this._applyMiddleware(
+        _applyTransform(statement, options)
+      );
+      if (sendStatement) sendStatements.push(sendStatement);
+    }
+    if (!sendStatements.length) {
+      return _skippedResponse();
+    }
+    sendStatements.forEach((s) => this._validateStatement(s, options));
+    const verbNames = this._reserveDefinedVerbs(sendStatements);
+    try {
+      // Batches bypass the statement queue, but are sent after anything already queued
+      await this.flushStatementQueue();
+      const response = await this._xapi.sendStatements({
+        statements: sendStatements,
+      });
+      this._emitStatementsSent(sendStatements, response.data);
+      return response;
+    } catch (err) {
+      verbNames.forEach((verbName) => this._unmarkDefinedVerbSent(verbName));
+      throw this._emitStatementsFailed(
+        sendStatements,
+        toLrsError(err, "Unable to send statement")
+      );
+    } finally {
+      this._persistSession();
+    }
+  }
+
+  private async _sendStatement(
+    statement: Statement,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    this._validateStatement(statement, options);
+    const verbNames = this._reserveDefinedVerbs([statement]);
+    // Queued statements resolve once delivered, so awaiting TERMINATED also awaits everything queued before it
+    const sending = this._statementQueue
+      ? this._statementQueue.enqueue(statement)
+      : this._xapi.sendStatement({
+          statement,
+        });
+    this._persistSession();
+    try {
+      const response = await sending;
+      this._emitStatementsSent([statement], response.data);
+      return response;
+    } catch (err) {
+      verbNames.forEach((verbName) => this._unmarkDefinedVerbSent(verbName));
+      throw this._emitStatementsFailed(
+        [statement],
+        toLrsError(err, "Unable to send statement")
+      );
+    } finally {
+      this._persistSession();
+    }
+  }
+
+  private _validateStatement(
+    statement: Statement,
+    options?: SendStatementOptions
+  ): void {
+    if (!(options?.strict ?? this._strictValidation)) return;
+    const { issues } = validateCmi5Statement(this, statement);
+    if (issues.length) {
+      throw new Cmi5ValidationError(statement, issues);
+    }
+  }
+
+  private async _applyMiddleware(
+    statement: Statement
+  ): Promise<Statement | null> {
+    let result: Statement | null | false = statement;
+    for (const middleware of this._middleware) {
+      result = await middleware(result, this);
+      if (!result) {
+        return null;
+      }
+    }
+    return result;
+  }
+
+  private _emitStatementsSent(
+    statements: Statement[],
+    statementIds: string[]
+  ): void {
+    statements.forEach((statement, i) => {
+      this._events.emit("statementSent", {
+        statement,
+        statementIds: statementIds[i] ? [statementIds[i]] : [],
+      });
+      if (_cmi5DefinedVerbName(statement) === "TERMINATED") {
+        this._events.emit("terminated", { statement });
+      }
+    });
+  }
+
+  private _emitStatementsFailed(
+    statements: Statement[],
+    error: unknown
+  ): unknown {
+    statements.forEach((statement) =>
+      this._events.emit("statementFailed", { statement, error })
+    );
+    this._events.emit("error", { error });
+    return error;
+  }
+
+  // For sending TERMINATED without awaiting a response, e.g. while the page unloads
+  protected reserveTerminateStatement(): Statement | null {
+    if (!this.canSend(Cmi5DefinedVerbs.TERMINATED)) {
+      return null;
+    }
+    // Middleware is not applied as it may be asynchronous and the page is about to unload
+    const statement = Cmi5TerminateStatement(this);
+    this._reserveDefinedVerbs([statement]);
+    this._persistSession();
+    this._events.emit("terminated", { statement });
+    return statement;
+  }
+
+  private _reserveDefinedVerbs(statements: Statement[]): string[] {
+    const verbNames: string[] = [];
+    try {
+      statements.forEach((statement) => {
+        const verbName = _cmi5DefinedVerbName(statement);
+        // Allowed statements reusing a defined verb, such as objective results, only need an active session
+        this._assertCanSend(statement.verb, verbName || statement.verb.id);
+        this._markDefinedVerbSent(verbName);
+        if (verbName) verbNames.push(verbName);
+      });
+    } catch (err) {
+      verbNames.forEach((verbName) => this._unmarkDefinedVerbSent(verbName));
+      throw err;
+    }
+    return verbNames;
+  }
+
+  private _sendInLaunchMode(
+    verb: Verb,
+    buildStatement: () => Statement,
+    options?: SendStatementOptions
+  ): AxiosPromise<string[]> {
+    return _rejectOnThrow(() => {
+      this._assertCanSend(verb);
+      const handling = this._launchModeHandling(verb);
+      if (handling === "skip") {
+        return Promise.resolve(_skippedResponse());
+      }
+      const statement = buildStatement();
+      return this.sendXapiStatement(
+        handling === "tag"
+          ? _tagLaunchMode(statement, this._launchData.launchMode)
+          : statement,
+        options
+      );
+    });
+  }
+
+  // Applies the launch mode policy, throwing when it is "throw" and the verb is not allowed
+  private _launchModeHandling(
+    verb: Verb,
+    verbName: string = _definedVerbName(verb) || verb.id
+  ): "send" | "skip" | "tag" {
+    const launchMode = this._launchData.launchMode;
+    // 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
+    const isMoveOnVerb = [
+      Cmi5DefinedVerbs.COMPLETED,
+      Cmi5DefinedVerbs.PASSED,
+      Cmi5DefinedVerbs.FAILED,
+    ].some((v) => v.id === verb.id);
+    // Answers and progress recorded while reviewing would be mistaken for a new attempt,
+    // restricting them is opt-in so they are still sent until a policy is set
+    const isReviewRestricted =
+      this._launchModePolicy !== null &&
+      launchMode === "Review" &&
+      [XAPI.Verbs.ANSWERED, XAPI.Verbs.PROGRESSED].some(
+        (v) => v.id === verb.id
+      );
+    if (launchMode === "Normal" || !(isMoveOnVerb || isReviewRestricted)) {
+      return "send";
+    }
+    if (this._launchModePolicy === null || this._launchModePolicy === "throw") {
+      throw isMoveOnVerb
+        ? new Cmi5LaunchModeError(verbName, launchMode)
+        : new Cmi5LaunchModeError(
+            verbName,
+            launchMode,
+            `Cannot send ${verbName} when launchMode is 'Review'`
+          );
+    }
+    // The LMS rejects moveOn statements outside of Normal mode, so these are never sent
+    return this._launchModePolicy === "tag" && !isMoveOnVerb ? "tag" : "skip";
+  }
+
+  private _sendConflict(verb: Verb, verbName?: string): string | undefined {
+    const requiredState: SessionState =
+      verbName === "INITIALIZED" ? "initializing" : "active";
+    if (this._sessionState !== requiredState) {
+      return `Can only send ${verbName || verb.id} when sessionState is '${requiredState}'`;
+    }
+    return verbName
+      ? _definedVerbConflict(verbName, this._sentDefinedVerbs)
+      : undefined;
+  }
+
+  private _assertCanSend(
+    verb: Verb,
+    verbName: string | undefined = _definedVerbName(verb)
+  ): void {
+    const conflict = this._sendConflict(verb, verbName);
+    if (conflict) {
+      throw new Cmi5SessionStateError(
+        conflict,
+        this._sessionState,
+        verbName || verb.id
+      );
+    }
+  }
+
+  private _markDefinedVerbSent(verbName?: string): void {
+    if (!verbName) return;
+    this._sentDefinedVerbs.add(verbName);
+    if (verbName === "TERMINATED") {
+      this._sessionState = "terminated";
+      this._activityTracker?.stop();
+      this._progressTracker?.stop();
+    }
+  }
+
+  private _unmarkDefinedVerbSent(verbName?: string): void {
+    if (!verbName) return;
+    this._sentDefinedVerbs.delete(verbName);
+    if (verbName === "TERMINATED") {
+      this._sessionState = "active";
+    }
+  }
 }
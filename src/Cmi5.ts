@@ -1,11 +1,62 @@
-import XAPI from "@xapi/xapi";
-import { LaunchParameters } from "./interfaces";
+import { Statement } from "@xapi/xapi";
+import { LaunchParameters, TerminateOnUnloadOptions } from "./interfaces";
 import AbstractCmi5 from "./AbstractCmi5";
+import { parseLaunchParameters } from "./launch";
+import { Cmi5Registry } from "./registry";
 
 export * from "./interfaces";
+export * from "./constants";
+export * from "./errors";
+export * from "./activity";
+export * from "./assessment";
+export * from "./language";
+export * from "./launch";
+export * from "./objectives";
+export * from "./patterns";
+export * from "./progress";
+export * from "./queue";
+export * from "./registry";
+export * from "./scoring";
+export * from "./session";
+export * from "./state";
+export * from "./summary";
+export * from "./validation";
+
+function _sendStatementOnUnload(
+  endpoint: string,
+  authToken: string,
+  statement: Statement,
+  transport: TerminateOnUnloadOptions["transport"]
+): boolean {
+  const url = `${endpoint.endsWith("/") ? endpoint : `${endpoint}/`}statements`;
+  const headers = {
+    Authorization: `Basic ${authToken}`,
+    "X-Experience-API-Version": "1.0.3",
+    "Content-Type": "application/json",
+  };
+  if (transport !== "beacon" && typeof fetch === "function") {
+    fetch(url, {
+      method: "POST",
+      keepalive: true,
+      headers,
+      body: JSON.stringify(statement),
+    }).catch(() => undefined);
+    return true;
+  }
+  if (typeof navigator === "object" && navigator.sendBeacon) {
+    // Beacons cannot set headers, so use the xAPI 1.0.3 alternate request syntax
+    const body = new URLSearchParams({
+      ...headers,
+      content: JSON.stringify(statement),
+    });
+    return navigator.sendBeacon(`${url}?method=POST`, body);
+  }
+  return false;
+}
 
 export default class Cmi5 extends AbstractCmi5 {
   private static _instance: Cmi5 | null = null;
+  private _removeUnloadListeners: (() => void) | null = null;
 
   constructor(
     launchParameters: LaunchParameters = Cmi5.getLaunchParametersFromLMS()
@@ -24,27 +75,86 @@ export default class Cmi5 extends AbstractCmi5 {
     Cmi5._instance = null;
   }
 
+  // Instances keyed by registration and activityId, for running several AU sessions at once
+  public static readonly registry: Cmi5Registry<Cmi5> = new Cmi5Registry(
+    (launchParameters) => new Cmi5(launchParameters)
+  );
+
+  public static fromUrl(url: string | URL): Cmi5 {
+    return new Cmi5(parseLaunchParameters(url.toString()));
+  }
+
+  public static fromSearchParams(
+    params: URLSearchParams | string | Record<string, string>
+  ): Cmi5 {
+    return new Cmi5(parseLaunchParameters(params));
+  }
+
   public static get isCmiAvailable(): boolean {
-    if (!window || typeof window !== "object") {
+    if (typeof window !== "object" || !window || !window.location) {
       return false;
     }
-    if (!window.location || typeof window.location.search !== "string") {
+    return Cmi5.isCmiAvailableAt(window.location.href);
+  }
+
+  // True if the URL has all the required cmi5 launch parameters
+  public static isCmiAvailableAt(url: string | URL): boolean {
+    try {
+      parseLaunchParameters(url.toString());
+      return true;
+    } catch (err) {
       return false;
     }
-    const p = new URLSearchParams(window.location.search);
-    return Boolean(
-      // true if has all required cmi5 query params
-      p.get("fetch") &&
-        p.get("endpoint") &&
-        p.get("actor") &&
-        p.get("registration") &&
-        p.get("activityId")
-    );
+  }
+
+  public dispose(): void {
+    this.disableTerminateOnUnload();
+    if (Cmi5._instance === this) {
+      Cmi5._instance = null;
+    }
+    super.dispose();
+  }
+
+  // Sends TERMINATED when the learner closes the window without the AU calling `terminate()`
+  public enableTerminateOnUnload(options: TerminateOnUnloadOptions = {}): void {
+    this.disableTerminateOnUnload();
+    const onPageHide = () => this.terminateOnUnload(options);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        this.terminateOnUnload(options);
+      }
+    };
+    window.addEventListener("pagehide", onPageHide);
+    if (options.useVisibilityChange) {
+      document.addEventListener("visibilitychange", onVisibilityChange);
+    }
+    this._removeUnloadListeners = () => {
+      window.removeEventListener("pagehide", onPageHide);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }
+
+  public disableTerminateOnUnload(): void {
+    if (this._removeUnloadListeners) {
+      this._removeUnloadListeners();
+      this._removeUnloadListeners = null;
+    }
+  }
+
+  protected terminateOnUnload(options: TerminateOnUnloadOptions): void {
+    const statement = this.reserveTerminateStatement();
+    if (statement) {
+      _sendStatementOnUnload(
+        this.getLaunchParameters().endpoint,
+        this.getAuthToken(),
+        statement,
+        options.transport
+      );
+      this.disableTerminateOnUnload();
+    }
   }
 
   protected static getLaunchParametersFromLMS(): LaunchParameters {
-    return XAPI.getSearchQueryParamsAsObject(
-      window.location.search
-    ) as LaunchParameters;
+    return parseLaunchParameters(window.location.search);
   }
 }
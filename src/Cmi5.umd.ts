@@ -0,0 +1,2 @@
+// The UMD global stays the `Cmi5` class alone, as it was before the entry gained named exports
+export { default } from "./Cmi5";
@@ -3,8 +3,8 @@ import XAPI, {
   Context,
   InteractionActivityDefinition,
   InteractionComponent,
-  LanguageMap,
   ObjectiveActivity,
+  Result,
   ResultScore,
   Statement,
   StatementObject,
@@ -12,16 +12,29 @@ import XAPI, {
 import { v4 as uuidv4 } from "uuid";
 import { default as deepmerge } from "deepmerge";
 import {
+  ChoiceInteractionOptions,
+  FillInInteractionOptions,
+  InteractionDescriptionOptions,
+  InteractionOptions,
+  InteractionScore,
   LaunchContext,
+  LikertInteractionOptions,
+  LocalizedInteractionComponent,
+  LocalizedText,
+  LongFillInInteractionOptions,
+  MatchingInteractionOptions,
   MoveOnOptions,
   NumericCriteria,
-  NumericExact,
-  NumericRange,
+  NumericInteractionOptions,
+  OtherInteractionOptions,
   PassOptions,
   Performance,
   PerformanceCriteria,
+  PerformanceInteractionOptions,
   Period,
+  SequencingInteractionOptions,
   StatementTransform,
+  TrueFalseInteractionOptions,
 } from "./interfaces";
 import {
   Cmi5ContextActivity,
@@ -31,6 +44,23 @@ import {
   Cmi5InteractionType,
   Cmi5ResultExtension,
 } from "./constants";
+import {
+  Cmi5Error,
+  Cmi5LaunchModeError,
+  Cmi5MasteryScoreError,
+} from "./errors";
+import { toLanguageMap } from "./language";
+import { formatCorrectResponsesPattern } from "./patterns";
+import {
+  scoreChoice,
+  scoreExact,
+  scoreFillIn,
+  scoreMatching,
+  scoreNumeric,
+  scorePerformance,
+  scoreSequencing,
+  scoreTrueFalse,
+} from "./scoring";
 
 export function Cmi5DefinedStatement(
   ctx: LaunchContext,
@@ -90,7 +120,7 @@ export function Cmi5AllowedStatement(
 export function Cmi5CompleteStatement(ctx: LaunchContext): Statement {
   // 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
   if (ctx.launchData.launchMode !== "Normal")
-    throw new Error("Can only send COMPLETED when launchMode is 'Normal'");
+    throw new Cmi5LaunchModeError("COMPLETED", ctx.launchData.launchMode);
 
   return Cmi5DefinedStatement(ctx, {
     // 9.3.3 Completed - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#933-completed
@@ -99,7 +129,7 @@ export function Cmi5CompleteStatement(ctx: LaunchContext): Statement {
       // 9.5.3 Completion - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#953-completion
       completion: true,
       // 9.5.4.1 Duration - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#completed-statement
-      duration: XAPI.calculateISO8601Duration(ctx.initializedDate, new Date()),
+      ..._durationResult(ctx),
     },
     context: {
       contextActivities: {
@@ -120,15 +150,19 @@ export function Cmi5PassStatement(
   const masteryScore = ctx.launchData.masteryScore;
   // 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
   if (ctx.launchData.launchMode !== "Normal")
-    throw new Error("Can only send PASSED when launchMode is 'Normal'");
+    throw new Cmi5LaunchModeError("PASSED", ctx.launchData.launchMode);
 
   const rScore = _toResultScore(score);
   // Best Practice #4 - AU Mastery Score - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
   if (_isNumber(masteryScore) && !_didMeetMasteryScore(masteryScore, rScore))
-    throw new Error("Learner has not met Mastery Score");
+    throw new Cmi5MasteryScoreError(masteryScore, rScore?.scaled);
   const objective = _isObjectiveActivity(objectiveOrOptions)
     ? objectiveOrOptions
     : objectiveOrOptions?.objectiveActivity;
+  const objectives = _uniqueActivities([
+    ...(objective ? [objective] : []),
+    ...(ctx.satisfiedObjectives || []),
+  ]);
 
   return Cmi5DefinedStatement(ctx, {
     // 9.3.4 Passed - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#934-passed
@@ -139,16 +173,16 @@ export function Cmi5PassStatement(
       // 9.5.2 Success - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#952-success
       success: true,
       // 9.5.4.1 Duration - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#passed-statement
-      duration: XAPI.calculateISO8601Duration(ctx.initializedDate, new Date()),
+      ..._durationResult(ctx),
     },
     context: {
       contextActivities: {
         // 9.6.2.2 moveOn Category Activity - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9622-moveon-category-activity
         category: [Cmi5ContextActivity.MOVE_ON],
         // Best Practice #1 - Use of Objectives - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
-        ...(objective ? { parent: [objective] } : {}),
+        ...(objectives.length ? { parent: objectives } : {}),
       },
-      ...(masteryScore
+      ...(_isNumber(masteryScore)
         ? { extensions: { [Cmi5ContextExtension.MASTERY_SCORE]: masteryScore } }
         : {}),
     },
@@ -161,7 +195,7 @@ export function Cmi5FailStatement(
 ): Statement {
   // 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
   if (ctx.launchData.launchMode !== "Normal")
-    throw new Error("Can only send FAILED when launchMode is 'Normal'");
+    throw new Cmi5LaunchModeError("FAILED", ctx.launchData.launchMode);
   const rScore = _toResultScore(score);
 
   return Cmi5DefinedStatement(ctx, {
@@ -173,14 +207,14 @@ export function Cmi5FailStatement(
       // 9.5.2 Success - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#952-success
       success: false,
       // 9.5.4.1 Duration - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#failed-statement
-      duration: XAPI.calculateISO8601Duration(ctx.initializedDate, new Date()),
+      ..._durationResult(ctx),
     },
     context: {
       contextActivities: {
         // 9.6.2.2 moveOn Category Activity - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9622-moveon-category-activity
         category: [Cmi5ContextActivity.MOVE_ON],
       },
-      ...(ctx.launchData.masteryScore
+      ...(_isNumber(ctx.launchData.masteryScore)
         ? {
             extensions: {
               [Cmi5ContextExtension.MASTERY_SCORE]: ctx.launchData.masteryScore,
@@ -197,7 +231,7 @@ export function Cmi5TerminateStatement(ctx: LaunchContext): Statement {
     verb: Cmi5DefinedVerbs.TERMINATED,
     result: {
       // 9.5.4.1 Duration - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#terminated-statement
-      duration: XAPI.calculateISO8601Duration(ctx.initializedDate, new Date()),
+      ..._durationResult(ctx),
     },
   });
 }
@@ -221,6 +255,94 @@ export function Cmi5ProgressStatement(
   });
 }
 
+export function Cmi5SuspendStatement(ctx: LaunchContext): Statement {
+  return Cmi5AllowedStatement(ctx, {
+    verb: XAPI.Verbs.SUSPENDED,
+    object: {
+      objectType: "Activity",
+      id: ctx.launchParameters.activityId,
+    },
+  });
+}
+
+export function Cmi5ResumeStatement(ctx: LaunchContext): Statement {
+  return Cmi5AllowedStatement(ctx, {
+    verb: XAPI.Verbs.RESUMED,
+    object: {
+      objectType: "Activity",
+      id: ctx.launchParameters.activityId,
+    },
+  });
+}
+
+// Summarizes one attempt at a test, whose questions share its derived activity ID
+export function Cmi5AssessmentStatement(
+  ctx: LaunchContext,
+  testId: string,
+  score: ResultScore,
+  success: boolean,
+  attempt: number,
+  period?: Period
+): Statement {
+  return Cmi5AllowedStatement(ctx, {
+    verb: XAPI.Verbs.SCORED,
+    result: {
+      score,
+      success,
+      ...(period ? { duration: _durationFromPeriod(period) } : {}),
+      extensions: {
+        [Cmi5ResultExtension.ATTEMPT]: attempt,
+      },
+    },
+    object: {
+      objectType: "Activity",
+      // Best Practice #16 - AU should use a derived activity ID for “cmi.interaction” statements - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+      id: `${ctx.launchParameters.activityId}/test/${testId}`,
+      definition: {
+        type: "http://adlnet.gov/expapi/activities/assessment",
+      },
+    },
+    context: {
+      contextActivities: {
+        parent: [
+          {
+            objectType: "Activity",
+            id: ctx.launchParameters.activityId,
+          },
+        ],
+      },
+    },
+  });
+}
+
+// Best Practice #1 - Use of Objectives - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+export function Cmi5ObjectiveStatement(
+  ctx: LaunchContext,
+  objective: ObjectiveActivity | string,
+  success: boolean,
+  score?: ResultScore | number
+): Statement {
+  const rScore = _toResultScore(score);
+  return Cmi5AllowedStatement(ctx, {
+    verb: success ? XAPI.Verbs.PASSED : XAPI.Verbs.FAILED,
+    result: {
+      ...(rScore ? { score: rScore } : {}),
+      success,
+    },
+    object: _objectiveActivity(ctx, objective),
+    context: {
+      contextActivities: {
+        parent: [
+          {
+            objectType: "Activity",
+            id: ctx.launchParameters.activityId,
+          },
+        ],
+      },
+    },
+  });
+}
+
 function setResultScore(resultScore: ResultScore, s: Statement): Statement {
   return {
     ...s,
@@ -256,21 +378,42 @@ export function Cmi5MoveOnStatements(
   const statements: Statement[] = [];
   // 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
   if (ctx.launchData.launchMode !== "Normal") {
-    throw new Error("Can only send FAILED when launchMode is 'Normal'");
+    throw new Cmi5LaunchModeError(
+      "moveOn statements",
+      ctx.launchData.launchMode
+    );
   }
 
-  if (options?.score) {
-    const rScore = _toResultScore(options?.score);
-    if (ctx.launchData.masteryScore) {
-      if (rScore.scaled >= ctx.launchData.masteryScore) {
-        statements.push(Cmi5PassStatement(ctx, rScore, options));
-      } else {
-        statements.push(Cmi5FailStatement(ctx, rScore));
-      }
-    }
+  const rScore = _toResultScore(options?.score);
+  const success = _moveOnSuccess(ctx, rScore, options);
+  const passFailStatement =
+    success === true
+      ? Cmi5PassStatement(ctx, rScore, options)
+      : success === false
+        ? Cmi5FailStatement(ctx, rScore)
+        : undefined;
+
+  // 10.0 xAPI State Data Model (moveOn) - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
+  switch (ctx.launchData.moveOn) {
+    case "NotApplicable":
+      break;
+    case "Completed":
+      statements.push(Cmi5CompleteStatement(ctx));
+      break;
+    case "Passed":
+      if (passFailStatement) statements.push(passFailStatement);
+      break;
+    case "CompletedOrPassed":
+      if (passFailStatement) statements.push(passFailStatement);
+      if (success !== true) statements.push(Cmi5CompleteStatement(ctx));
+      break;
+    case "CompletedAndPassed":
+    default:
+      if (passFailStatement) statements.push(passFailStatement);
+      statements.push(Cmi5CompleteStatement(ctx));
+      break;
   }
 
-  statements.push(Cmi5CompleteStatement(ctx));
   if (!options?.disableSendTerminated) {
     statements.push(Cmi5TerminateStatement(ctx));
   }
@@ -278,353 +421,688 @@ export function Cmi5MoveOnStatements(
   return statements;
 }
 
+export function Cmi5InteractionTrueFalseStatement(
+  ctx: LaunchContext,
+  options: TrueFalseInteractionOptions
+): Statement;
 export function Cmi5InteractionTrueFalseStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answer: boolean,
   correctAnswer?: boolean,
-  name?: LanguageMap,
-  description?: LanguageMap,
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionTrueFalseStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | TrueFalseInteractionOptions,
+  questionId?: string,
+  answer?: boolean,
+  correctAnswer?: boolean,
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: TrueFalseInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answer,
+          correctAnswer,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answer.toString(),
+    options,
+    options.answer.toString(),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.TRUE_FALSE,
-      ...(correctAnswer !== undefined
-        ? { correctResponsesPattern: correctAnswer ? ["true"] : ["false"] }
+      ...(options.correctAnswer !== undefined
+        ? {
+            correctResponsesPattern: options.correctAnswer
+              ? ["true"]
+              : ["false"],
+          }
         : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswer !== undefined
+      ? scoreTrueFalse(options.answer, options.correctAnswer)
+      : null
   );
 }
 
+export function Cmi5InteractionChoiceStatement(
+  ctx: LaunchContext,
+  options: ChoiceInteractionOptions
+): Statement;
 export function Cmi5InteractionChoiceStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answerIds: string[],
   correctAnswerIds?: string[],
-  choices?: InteractionComponent[],
-  name?: LanguageMap,
-  description?: LanguageMap,
+  choices?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionChoiceStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | ChoiceInteractionOptions,
+  questionId?: string,
+  answerIds?: string[],
+  correctAnswerIds?: string[],
+  choices?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: ChoiceInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answerIds,
+          correctAnswerIds,
+          choices,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answerIds.join("[,]"),
+    options,
+    options.answerIds.join("[,]"),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.CHOICE,
-      ...(correctAnswerIds
-        ? { correctResponsesPattern: [correctAnswerIds.join("[,]")] }
+      ...(options.correctAnswerIds
+        ? {
+            correctResponsesPattern: [
+              formatCorrectResponsesPattern({
+                interactionType: "choice",
+                ids: options.correctAnswerIds,
+              }),
+            ],
+          }
+        : {}),
+      ...(options.choices
+        ? { choices: _interactionComponents(ctx, options.choices) }
         : {}),
-      ...(choices ? { choices } : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswerIds
+      ? scoreChoice(options.answerIds, options.correctAnswerIds)
+      : null
   );
 }
 
+export function Cmi5InteractionFillInStatement(
+  ctx: LaunchContext,
+  options: FillInInteractionOptions
+): Statement;
 export function Cmi5InteractionFillInStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answers: string[],
   correctAnswers?: string[],
-  name?: LanguageMap,
-  description?: LanguageMap,
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionFillInStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | FillInInteractionOptions,
+  questionId?: string,
+  answers?: string[],
+  correctAnswers?: string[],
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: FillInInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answers,
+          correctAnswers,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answers.join("[,]"),
+    options,
+    options.answers.join("[,]"),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.FILL_IN,
-      ...(correctAnswers
-        ? { correctResponsesPattern: [correctAnswers.join("[,]")] }
+      ...(options.correctAnswers
+        ? { correctResponsesPattern: [_fillInPattern("fill-in", options)] }
         : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswers
+      ? scoreFillIn(options.answers, options.correctAnswers, options)
+      : null
   );
 }
 
+export function Cmi5InteractionLongFillInStatement(
+  ctx: LaunchContext,
+  options: LongFillInInteractionOptions
+): Statement;
 export function Cmi5InteractionLongFillInStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answers: string[],
   correctAnswers?: string[],
-  name?: LanguageMap,
-  description?: LanguageMap,
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionLongFillInStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | LongFillInInteractionOptions,
+  questionId?: string,
+  answers?: string[],
+  correctAnswers?: string[],
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: LongFillInInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answers,
+          correctAnswers,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answers.join("[,]"),
+    options,
+    options.answers.join("[,]"),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.LONG_FILL_IN,
-      ...(correctAnswers
-        ? { correctResponsesPattern: [correctAnswers.join("[,]")] }
+      ...(options.correctAnswers
+        ? { correctResponsesPattern: [_fillInPattern("long-fill-in", options)] }
         : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswers
+      ? scoreFillIn(options.answers, options.correctAnswers, options)
+      : null
   );
 }
 
+export function Cmi5InteractionLikertStatement(
+  ctx: LaunchContext,
+  options: LikertInteractionOptions
+): Statement;
 export function Cmi5InteractionLikertStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answerId: string,
   correctAnswerId?: string,
-  scale?: InteractionComponent[],
-  name?: LanguageMap,
-  description?: LanguageMap,
+  scale?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionLikertStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | LikertInteractionOptions,
+  questionId?: string,
+  answerId?: string,
+  correctAnswerId?: string,
+  scale?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: LikertInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answerId,
+          correctAnswerId,
+          scale,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answerId,
+    options,
+    options.answerId,
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.LIKERT,
-      ...(correctAnswerId
-        ? { correctResponsesPattern: [correctAnswerId] }
+      ...(options.correctAnswerId
+        ? {
+            correctResponsesPattern: [
+              formatCorrectResponsesPattern({
+                interactionType: "likert",
+                id: options.correctAnswerId,
+              }),
+            ],
+          }
+        : {}),
+      ...(options.scale
+        ? { scale: _interactionComponents(ctx, options.scale) }
         : {}),
-      ...(scale ? { scale } : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswerId
+      ? scoreExact(options.answerId, options.correctAnswerId)
+      : null
   );
 }
 
+export function Cmi5InteractionMatchingStatement(
+  ctx: LaunchContext,
+  options: MatchingInteractionOptions
+): Statement;
 export function Cmi5InteractionMatchingStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answers: { [sourceId: string]: string },
   correctAnswers?: { [sourceId: string]: string },
-  source?: InteractionComponent[],
-  target?: InteractionComponent[],
-  name?: LanguageMap,
-  description?: LanguageMap,
+  source?: LocalizedInteractionComponent[],
+  target?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionMatchingStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | MatchingInteractionOptions,
+  questionId?: string,
+  answers?: { [sourceId: string]: string },
+  correctAnswers?: { [sourceId: string]: string },
+  source?: LocalizedInteractionComponent[],
+  target?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: MatchingInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answers,
+          correctAnswers,
+          source,
+          target,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    Object.entries(answers)
+    options,
+    Object.entries(options.answers)
       .map(([k, v]) => `${k}[.]${v}`)
       .join("[,]"),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.MATCHING,
-      ...(correctAnswers
+      ...(options.correctAnswers
         ? {
             correctResponsesPattern: [
-              Object.entries(correctAnswers)
-                .map(([key, val]) => `${key}[.]${val}`)
-                .join("[,]"),
+              formatCorrectResponsesPattern({
+                interactionType: "matching",
+                pairs: Object.entries(options.correctAnswers).map(
+                  ([source, target]) => ({ source, target })
+                ),
+              }),
             ],
           }
         : {}),
-      ...(source ? { source } : {}),
-      ...(target ? { target } : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
+      ...(options.source
+        ? { source: _interactionComponents(ctx, options.source) }
+        : {}),
+      ...(options.target
+        ? { target: _interactionComponents(ctx, options.target) }
+        : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswers
+      ? scoreMatching(options.answers, options.correctAnswers)
+      : null
   );
 }
 
+export function Cmi5InteractionPerformanceStatement(
+  ctx: LaunchContext,
+  options: PerformanceInteractionOptions
+): Statement;
 export function Cmi5InteractionPerformanceStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answers: Performance,
   correctAnswers?: PerformanceCriteria[],
-  steps?: InteractionComponent[],
-  name?: LanguageMap,
-  description?: LanguageMap,
+  steps?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionPerformanceStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | PerformanceInteractionOptions,
+  questionId?: string,
+  answers?: Performance,
+  correctAnswers?: PerformanceCriteria[],
+  steps?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: PerformanceInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answers,
+          correctAnswers,
+          steps,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    Object.entries(answers)
+    options,
+    Object.entries(options.answers)
       .map(([k, v]) => `${k}[.]${v}`)
       .join("[,]"),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.PERFORMANCE,
-      ...(correctAnswers
+      ...(options.correctAnswers
         ? {
             correctResponsesPattern: [
-              Object.entries(correctAnswers)
-                .map(([k, v]) => `${k}[.]${_numericCriteriaToString(v)}`)
-                .join("[,]"),
+              formatCorrectResponsesPattern({
+                interactionType: "performance",
+                steps: options.correctAnswers,
+              }),
             ],
           }
         : {}),
-      ...(steps ? { steps } : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
+      ...(options.steps
+        ? { steps: _interactionComponents(ctx, options.steps) }
+        : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswers
+      ? scorePerformance(options.answers, options.correctAnswers)
+      : null
   );
 }
 
+export function Cmi5InteractionSequencingStatement(
+  ctx: LaunchContext,
+  options: SequencingInteractionOptions
+): Statement;
 export function Cmi5InteractionSequencingStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answerIds: string[],
   correctAnswerIds: string[],
-  choices?: InteractionComponent[],
-  name?: LanguageMap,
-  description?: LanguageMap,
+  choices?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionSequencingStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | SequencingInteractionOptions,
+  questionId?: string,
+  answerIds?: string[],
+  correctAnswerIds?: string[],
+  choices?: LocalizedInteractionComponent[],
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: SequencingInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answerIds,
+          correctAnswerIds,
+          choices,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answerIds.join("[,]"),
+    options,
+    options.answerIds.join("[,]"),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.SEQUENCING,
-      ...(correctAnswerIds
-        ? { correctResponsesPattern: [correctAnswerIds.join("[,]")] }
+      ...(options.correctAnswerIds
+        ? {
+            correctResponsesPattern: [
+              formatCorrectResponsesPattern({
+                interactionType: "sequencing",
+                ids: options.correctAnswerIds,
+              }),
+            ],
+          }
+        : {}),
+      ...(options.choices
+        ? { choices: _interactionComponents(ctx, options.choices) }
         : {}),
-      ...(choices ? { choices } : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswerIds
+      ? scoreSequencing(options.answerIds, options.correctAnswerIds)
+      : null
   );
 }
 
+export function Cmi5InteractionNumericStatement(
+  ctx: LaunchContext,
+  options: NumericInteractionOptions
+): Statement;
 export function Cmi5InteractionNumericStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answer: number,
   correctAnswer: NumericCriteria,
-  name?: LanguageMap,
-  description?: LanguageMap,
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionNumericStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | NumericInteractionOptions,
+  questionId?: string,
+  answer?: number,
+  correctAnswer?: NumericCriteria,
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
 ): Statement {
-  const correctAnswerObj = correctAnswer
-    ? { correctResponsesPattern: [_numericCriteriaToString(correctAnswer)] }
-    : {};
-  return Cmi5InteractionStatement(
+  const options: NumericInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answer,
+          correctAnswer,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answer.toString(),
+    options,
+    options.answer.toString(),
     {
       type: Cmi5InteractionIRI,
       interactionType: Cmi5InteractionType.NUMERIC,
-      ...correctAnswerObj,
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
+      ...(options.correctAnswer
+        ? {
+            correctResponsesPattern: [
+              formatCorrectResponsesPattern({
+                interactionType: "numeric",
+                criteria: options.correctAnswer,
+              }),
+            ],
+          }
+        : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswer
+      ? scoreNumeric(options.answer, options.correctAnswer)
+      : null
   );
 }
 
+export function Cmi5InteractionOtherStatement(
+  ctx: LaunchContext,
+  options: OtherInteractionOptions
+): Statement;
 export function Cmi5InteractionOtherStatement(
   ctx: LaunchContext,
   testId: string,
   questionId: string,
   answer: string,
   correctAnswer: string,
-  name?: LanguageMap,
-  description?: LanguageMap,
+  name?: LocalizedText,
+  description?: LocalizedText,
+  success?: boolean,
+  duration?: Period,
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionOtherStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | OtherInteractionOptions,
+  questionId?: string,
+  answer?: string,
+  correctAnswer?: string,
+  name?: LocalizedText,
+  description?: LocalizedText,
   success?: boolean,
   duration?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
 ): Statement {
-  return Cmi5InteractionStatement(
+  const options: OtherInteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          answer,
+          correctAnswer,
+          name,
+          description,
+          success,
+          duration,
+          objective,
+        }
+      : testIdOrOptions;
+  return _interactionStatement(
     ctx,
-    testId,
-    questionId,
-    answer,
+    options,
+    options.answer,
     {
       type: Cmi5InteractionIRI,
       interactionType: "other",
-      ...(correctAnswer ? { correctResponsesPattern: [correctAnswer] } : {}),
-      ...(name ? { name } : {}),
-      ...(description ? { description } : {}),
+      ...(options.correctAnswer
+        ? { correctResponsesPattern: [options.correctAnswer] }
+        : {}),
     },
-    success,
-    duration,
-    objective
+    options.correctAnswer
+      ? scoreExact(options.answer, options.correctAnswer)
+      : null
   );
 }
 
+export function Cmi5InteractionStatement(
+  ctx: LaunchContext,
+  options: InteractionOptions
+): Statement;
 export function Cmi5InteractionStatement(
   ctx: LaunchContext,
   testId: string,
@@ -633,27 +1111,54 @@ export function Cmi5InteractionStatement(
   interactionDefinition: InteractionActivityDefinition,
   success?: boolean,
   period?: Period,
-  objective?: ObjectiveActivity
+  objective?: ObjectiveActivity | string
+): Statement;
+export function Cmi5InteractionStatement(
+  ctx: LaunchContext,
+  testIdOrOptions: string | InteractionOptions,
+  questionId?: string,
+  response?: string,
+  interactionDefinition?: InteractionActivityDefinition,
+  success?: boolean,
+  period?: Period,
+  objective?: ObjectiveActivity | string
 ): Statement {
+  const options: InteractionOptions =
+    typeof testIdOrOptions === "string"
+      ? {
+          testId: testIdOrOptions,
+          questionId,
+          response,
+          interactionDefinition,
+          success,
+          duration: period,
+          objective,
+        }
+      : testIdOrOptions;
   return Cmi5AllowedStatement(ctx, {
     verb: XAPI.Verbs.ANSWERED,
     result: {
-      response: response,
-      ...(period ? { duration: _durationFromPeriod(period) } : {}),
-      ...(typeof success === "boolean" ? { success } : {}),
+      response: options.response,
+      ...(options.duration
+        ? { duration: _durationFromPeriod(options.duration) }
+        : {}),
+      ...(typeof options.success === "boolean"
+        ? { success: options.success }
+        : {}),
+      ...(options.score ? { score: options.score } : {}),
     },
     object: {
       objectType: "Activity",
       // Best Practice #16 - AU should use a derived activity ID for “cmi.interaction” statements - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
-      id: `${ctx.launchParameters.activityId}/test/${testId}/question/${questionId}`,
-      definition: interactionDefinition,
+      id: `${ctx.launchParameters.activityId}/test/${options.testId}/question/${options.questionId}`,
+      definition: options.interactionDefinition,
     },
     // Best Practice #1 - Use of Objectives - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
-    ...(objective
+    ...(options.objective
       ? {
           context: {
             contextActivities: {
-              parent: [objective],
+              parent: [_objectiveActivity(ctx, options.objective)],
             },
           },
         }
@@ -663,29 +1168,133 @@ export function Cmi5InteractionStatement(
 
 // Helper/utility functions
 
+function _interactionStatement(
+  ctx: LaunchContext,
+  options: InteractionDescriptionOptions,
+  response: string,
+  definition: InteractionActivityDefinition,
+  evaluation: InteractionScore | null
+): Statement {
+  const {
+    testId,
+    questionId,
+    name,
+    description,
+    success,
+    duration,
+    objective,
+  } = options;
+  return Cmi5InteractionStatement(ctx, {
+    testId,
+    questionId,
+    response,
+    interactionDefinition: {
+      ...definition,
+      ...(name ? { name: toLanguageMap(name, ctx.defaultLanguage) } : {}),
+      ...(description
+        ? { description: toLanguageMap(description, ctx.defaultLanguage) }
+        : {}),
+    },
+    success: typeof success === "boolean" ? success : evaluation?.success,
+    score:
+      options.score ||
+      (options.partialCredit && evaluation
+        ? _partialCreditScore(evaluation)
+        : undefined),
+    duration,
+    objective,
+  });
+}
+
+function _objectiveActivity(
+  ctx: LaunchContext,
+  objective: ObjectiveActivity | string
+): ObjectiveActivity {
+  if (typeof objective !== "string") {
+    return objective;
+  }
+  const activity = ctx.objectiveActivities?.[objective];
+  if (!activity) {
+    throw new Cmi5Error(`Objective "${objective}" is not registered`);
+  }
+  return activity;
+}
+
+function _uniqueActivities(
+  activities: ObjectiveActivity[]
+): ObjectiveActivity[] {
+  return activities.filter(
+    (activity, i) => activities.findIndex((a) => a.id === activity.id) === i
+  );
+}
+
+function _interactionComponents(
+  ctx: LaunchContext,
+  components: LocalizedInteractionComponent[]
+): InteractionComponent[] {
+  return components.map(({ id, description }) => ({
+    id,
+    ...(description
+      ? { description: toLanguageMap(description, ctx.defaultLanguage) }
+      : {}),
+  }));
+}
+
+function _partialCreditScore({
+  raw,
+  max,
+  success,
+}: InteractionScore): ResultScore {
+  return {
+    scaled: max ? raw / max : success ? 1 : 0,
+    raw,
+    min: 0,
+    max,
+  };
+}
+
+function _fillInPattern(
+  interactionType: "fill-in" | "long-fill-in",
+  { correctAnswers, caseMatters, orderMatters }: FillInInteractionOptions
+): string {
+  return formatCorrectResponsesPattern({
+    interactionType,
+    caseMatters,
+    orderMatters,
+    items: correctAnswers.map((value) => ({ value })),
+  });
+}
+
 // Formatting
 
 function _toResultScore(s?: ResultScore | number): ResultScore | undefined {
   return _isNumber(s) ? { scaled: Number(s) } : s;
 }
 
-function _numericCriteriaToString(
-  criteria: NumericExact | NumericRange | unknown
-) {
-  if (_isNumericExact(criteria)) {
-    return String(criteria.exact);
-  } else if (_isNumericRange(criteria)) {
-    const { min, max } = criteria;
-    return `${min}:${max}`;
-  } else {
-    return ":";
-  }
-}
-
 function _durationFromPeriod(period: Period) {
   return XAPI.calculateISO8601Duration(period.start, period.end);
 }
 
+// Reports active time as the duration when it is tracked, keeping the elapsed time in an extension
+function _durationResult(ctx: LaunchContext): Partial<Result> {
+  const wallClockDuration = XAPI.calculateISO8601Duration(
+    ctx.initializedDate,
+    new Date()
+  );
+  if (typeof ctx.activeDuration !== "number") {
+    return { duration: wallClockDuration };
+  }
+  return {
+    duration: XAPI.calculateISO8601Duration(
+      new Date(0),
+      new Date(ctx.activeDuration)
+    ),
+    extensions: {
+      [Cmi5ResultExtension.WALL_CLOCK_DURATION]: wallClockDuration,
+    },
+  };
+}
+
 // Type predicates
 
 function _isObjectiveActivity(x?: unknown): x is ObjectiveActivity {
@@ -707,14 +1316,17 @@ function _isNumber(n?: number | unknown): n is number {
   return !isNaN(Number(n));
 }
 
-function _isNumericExact(candidate: unknown): candidate is NumericExact {
-  return typeof candidate === "object" && "exact" in candidate;
-}
-
-function _isNumericRange(candidate: unknown): candidate is NumericRange {
-  return (
-    typeof candidate === "object" && "min" in candidate && "max" in candidate
-  );
+// Best Practice #4 - AU Mastery Score - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+function _moveOnSuccess(
+  ctx: LaunchContext,
+  rScore?: ResultScore,
+  options?: MoveOnOptions
+): boolean | undefined {
+  const masteryScore = ctx.launchData.masteryScore;
+  if (_isNumber(masteryScore)) {
+    return rScore ? _didMeetMasteryScore(masteryScore, rScore) : undefined;
+  }
+  return typeof options?.success === "boolean" ? options.success : undefined;
 }
 
 function _didMeetMasteryScore(
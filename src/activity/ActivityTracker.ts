@@ -0,0 +1,208 @@
+import { ActivityTrackingOptions, PauseReason } from "../interfaces";
+
+export interface ActivityChangeListener {
+  (paused: boolean, reason: PauseReason): void;
+}
+
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+const USER_INPUT_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "pointerdown",
+  "touchstart",
+  "scroll",
+  "wheel",
+];
+
+/**
+ * Accumulates the time a learner is actively engaged, excluding periods where the page
+ * is hidden, the learner is idle, or the AU has paused tracking itself.
+ */
+export class ActivityTracker {
+  private _trackVisibility: boolean;
+  private _idleTimeout: number;
+  private _onChange: ActivityChangeListener;
+  private _startedAt: number | null = null;
+  private _accumulated = 0;
+  private _activeSince: number | null = null;
+  private _pauseReason: PauseReason | null = null;
+  private _lastInputAt = 0;
+  private _idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private _removeListeners: (() => void) | null = null;
+
+  constructor(
+    options: ActivityTrackingOptions = {},
+    onChange: ActivityChangeListener = () => undefined
+  ) {
+    this._trackVisibility = options.trackVisibility ?? true;
+    this._idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+    this._onChange = onChange;
+  }
+
+  public get isStarted(): boolean {
+    return this._startedAt !== null;
+  }
+
+  public get isPaused(): boolean {
+    return this._pauseReason !== null;
+  }
+
+  public get pauseReason(): PauseReason | null {
+    return this._pauseReason;
+  }
+
+  // Time already spent before tracking began, e.g. since initialize, is counted as active,
+  // as is `previousActiveTime` carried over from an earlier page of the same session
+  public start(startedAt: Date = new Date(), previousActiveTime = 0): void {
+    if (this.isStarted) return;
+    const now = Date.now();
+    this._startedAt = startedAt.getTime();
+    this._accumulated = previousActiveTime + Math.max(now - this._startedAt, 0);
+    this._activeSince = now;
+    this._lastInputAt = now;
+    this._addListeners();
+    if (this._trackVisibility && _isDocumentHidden()) {
+      this._pause("hidden", now);
+    } else {
+      this._scheduleIdleCheck(this._idleTimeout);
+    }
+  }
+
+  public stop(): void {
+    if (this._removeListeners) {
+      this._removeListeners();
+      this._removeListeners = null;
+    }
+    this._clearIdleTimer();
+    if (this._activeSince !== null) {
+      this._accumulated += Date.now() - this._activeSince;
+      this._activeSince = null;
+    }
+  }
+
+  public pause(): void {
+    if (this._pauseReason === "manual") return;
+    if (this.isPaused) {
+      // Already paused automatically, a manual pause must outlast the automatic resume
+      this._pauseReason = "manual";
+      return;
+    }
+    this._pause("manual", Date.now());
+  }
+
+  public resume(): void {
+    if (this._pauseReason !== "manual") return;
+    if (this._trackVisibility && _isDocumentHidden()) {
+      this._pauseReason = "hidden";
+      return;
+    }
+    this._resume();
+  }
+
+  // Milliseconds of active time, including the current active period
+  public getActiveTime(): number {
+    if (!this.isStarted) return 0;
+    return (
+      this._accumulated +
+      (this._activeSince !== null ? Date.now() - this._activeSince : 0)
+    );
+  }
+
+  private _pause(reason: PauseReason, at: number): void {
+    if (this._activeSince !== null) {
+      this._accumulated += Math.max(at - this._activeSince, 0);
+      this._activeSince = null;
+    }
+    this._pauseReason = reason;
+    this._clearIdleTimer();
+    this._onChange(true, reason);
+  }
+
+  private _resume(): void {
+    const reason = this._pauseReason as PauseReason;
+    const now = Date.now();
+    this._pauseReason = null;
+    this._activeSince = now;
+    this._lastInputAt = now;
+    this._scheduleIdleCheck(this._idleTimeout);
+    this._onChange(false, reason);
+  }
+
+  private _onVisibilityChange = (): void => {
+    if (_isDocumentHidden()) {
+      if (!this.isPaused) this._pause("hidden", Date.now());
+    } else if (this._pauseReason === "hidden") {
+      this._resume();
+    }
+  };
+
+  private _onUserInput = (): void => {
+    if (this._pauseReason === "idle") {
+      this._resume();
+    } else if (!this.isPaused) {
+      this._lastInputAt = Date.now();
+    }
+  };
+
+  private _checkIdle = (): void => {
+    this._idleTimer = null;
+    if (this.isPaused) return;
+    const idleFor = Date.now() - this._lastInputAt;
+    if (idleFor >= this._idleTimeout) {
+      // The learner stopped being active at their last input, not when the timeout elapsed
+      this._pause("idle", this._lastInputAt);
+    } else {
+      this._scheduleIdleCheck(this._idleTimeout - idleFor);
+    }
+  };
+
+  private _scheduleIdleCheck(delay: number): void {
+    this._clearIdleTimer();
+    if (this._idleTimeout > 0 && this._removeListeners) {
+      this._idleTimer = setTimeout(this._checkIdle, delay);
+    }
+  }
+
+  private _clearIdleTimer(): void {
+    if (this._idleTimer) {
+      clearTimeout(this._idleTimer);
+      this._idleTimer = null;
+    }
+  }
+
+  private _addListeners(): void {
+    if (typeof document !== "object" || !document) {
+      this._removeListeners = () => undefined;
+      return;
+    }
+    const trackVisibility = this._trackVisibility;
+    const trackInput = this._idleTimeout > 0;
+    if (trackVisibility) {
+      document.addEventListener("visibilitychange", this._onVisibilityChange);
+    }
+    if (trackInput) {
+      USER_INPUT_EVENTS.forEach((type) =>
+        document.addEventListener(type, this._onUserInput, { passive: true })
+      );
+    }
+    this._removeListeners = () => {
+      document.removeEventListener(
+        "visibilitychange",
+        this._onVisibilityChange
+      );
+      USER_INPUT_EVENTS.forEach((type) =>
+        document.removeEventListener(type, this._onUserInput)
+      );
+    };
+  }
+}
+
+function _isDocumentHidden(): boolean {
+  return (
+    typeof document === "object" &&
+    Boolean(document) &&
+    document.visibilityState === "hidden"
+  );
+}
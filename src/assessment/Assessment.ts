@@ -0,0 +1,355 @@
+import { AxiosPromise, AxiosResponse } from "axios";
+import { ResultScore, Statement } from "@xapi/xapi";
+import type AbstractCmi5 from "../AbstractCmi5";
+import {
+  AssessmentFinishOptions,
+  AssessmentOptions,
+  AssessmentQuestion,
+  AssessmentResult,
+  ChoiceInteractionOptions,
+  FillInInteractionOptions,
+  InteractionDescriptionOptions,
+  LikertInteractionOptions,
+  LongFillInInteractionOptions,
+  MatchingInteractionOptions,
+  NumericInteractionOptions,
+  OtherInteractionOptions,
+  PerformanceInteractionOptions,
+  SequencingInteractionOptions,
+  TrueFalseInteractionOptions,
+} from "../interfaces";
+import {
+  Cmi5AssessmentStatement,
+  Cmi5InteractionChoiceStatement,
+  Cmi5InteractionFillInStatement,
+  Cmi5InteractionLikertStatement,
+  Cmi5InteractionLongFillInStatement,
+  Cmi5InteractionMatchingStatement,
+  Cmi5InteractionNumericStatement,
+  Cmi5InteractionOtherStatement,
+  Cmi5InteractionPerformanceStatement,
+  Cmi5InteractionSequencingStatement,
+  Cmi5InteractionTrueFalseStatement,
+} from "../Cmi5Statements";
+import { Cmi5Error } from "../errors";
+import { resultCredit } from "../scoring";
+
+interface RecordedAnswer {
+  weight: number;
+  // Share of the question's weight earned, null when the question has no correct answer
+  credit: number | null;
+}
+
+function _draw(pool: string[], count: number, random: () => number): string[] {
+  const questionIds = pool.slice();
+  // Fisher-Yates shuffle
+  for (let i = questionIds.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [questionIds[i], questionIds[j]] = [questionIds[j], questionIds[i]];
+  }
+  return questionIds.slice(0, count);
+}
+
+/**
+ * Records the answers to one test as interaction statements and scores them by weight,
+ * sending the attempt summary and then PASSED or FAILED against the mastery score.
+ */
+export class Assessment {
+  private _cmi5: AbstractCmi5;
+  private _testId: string;
+  private _options: AssessmentOptions;
+  private _attempt = 1;
+  private _startedAt: Date = new Date();
+  private _questionIds: string[] | null = null;
+  private _answers: Map<string, RecordedAnswer> = new Map();
+  private _result: AssessmentResult | null = null;
+  // Result of the attempt whose summary was sent, reused if finishing has to be retried
+  private _summarized: AssessmentResult | null = null;
+
+  constructor(
+    cmi5: AbstractCmi5,
+    testId: string,
+    options: AssessmentOptions = {}
+  ) {
+    if (
+      options.maxAttempts !== undefined &&
+      !(Number.isInteger(options.maxAttempts) && options.maxAttempts > 0)
+    ) {
+      throw new Cmi5Error(
+        `maxAttempts must be a positive integer, got ${options.maxAttempts}`
+      );
+    }
+    this._cmi5 = cmi5;
+    this._testId = testId;
+    this._options = options;
+    this._drawQuestions();
+  }
+
+  public get testId(): string {
+    return this._testId;
+  }
+
+  public get attempt(): number {
+    return this._attempt;
+  }
+
+  // The questions drawn from the pool for this attempt, or null without a pool
+  public get questionIds(): string[] | null {
+    return this._questionIds ? this._questionIds.slice() : null;
+  }
+
+  public getQuestionIds(): string[] | null {
+    return this.questionIds;
+  }
+
+  public get isFinished(): boolean {
+    return this._result !== null;
+  }
+
+  public get canRetake(): boolean {
+    return this._result !== null && !this._result.final;
+  }
+
+  public trueFalse(
+    question: AssessmentQuestion<TrueFalseInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionTrueFalseStatement(this._cmi5, options)
+    );
+  }
+
+  public choice(
+    question: AssessmentQuestion<ChoiceInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionChoiceStatement(this._cmi5, options)
+    );
+  }
+
+  public fillIn(
+    question: AssessmentQuestion<FillInInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionFillInStatement(this._cmi5, options)
+    );
+  }
+
+  public longFillIn(
+    question: AssessmentQuestion<LongFillInInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionLongFillInStatement(this._cmi5, options)
+    );
+  }
+
+  public likert(
+    question: AssessmentQuestion<LikertInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionLikertStatement(this._cmi5, options)
+    );
+  }
+
+  public matching(
+    question: AssessmentQuestion<MatchingInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionMatchingStatement(this._cmi5, options)
+    );
+  }
+
+  public performance(
+    question: AssessmentQuestion<PerformanceInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionPerformanceStatement(this._cmi5, options)
+    );
+  }
+
+  public sequencing(
+    question: AssessmentQuestion<SequencingInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionSequencingStatement(this._cmi5, options)
+    );
+  }
+
+  public numeric(
+    question: AssessmentQuestion<NumericInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionNumericStatement(this._cmi5, options)
+    );
+  }
+
+  public other(
+    question: AssessmentQuestion<OtherInteractionOptions>
+  ): AxiosPromise<string[]> {
+    return this._answer(question, (options) =>
+      Cmi5InteractionOtherStatement(this._cmi5, options)
+    );
+  }
+
+  // Weighted score of the current attempt, unanswered pool questions count as incorrect
+  public getScore(): ResultScore {
+    let raw = 0;
+    let max = 0;
+    const questionIds = this._questionIds || Array.from(this._answers.keys());
+    questionIds.forEach((questionId) => {
+      const answer = this._answers.get(questionId);
+      if (!answer) {
+        max += this._weight(questionId);
+      } else if (answer.credit !== null) {
+        raw += answer.weight * answer.credit;
+        max += answer.weight;
+      }
+    });
+    return {
+      scaled: max ? raw / max : 0,
+      raw,
+      min: 0,
+      max,
+    };
+  }
+
+  // Sends the attempt summary, then PASSED, or FAILED once no retake remains
+  public async finish(
+    options: AssessmentFinishOptions = {}
+  ): Promise<AssessmentResult> {
+    if (this._result) {
+      throw new Cmi5Error(
+        `Attempt ${this._attempt} of test "${this._testId}" is already finished`
+      );
+    }
+    const { final: finalOption, ...sendOptions } = options;
+    const result = this._summarized || this._attemptResult(finalOption);
+    this._result = result;
+    try {
+      if (!this._summarized) {
+        const response = await this._cmi5.sendXapiStatement(
+          Cmi5AssessmentStatement(
+            this._cmi5,
+            this._testId,
+            result.score,
+            result.passed,
+            this._attempt,
+            { start: this._startedAt, end: new Date() }
+          ),
+          sendOptions
+        );
+        // A summary vetoed by middleware is sent again when finishing is retried
+        if (response.data.length) {
+          this._summarized = result;
+        }
+      }
+      // 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
+      if (this._cmi5.getLaunchData().launchMode === "Normal") {
+        if (result.passed) {
+          await this._cmi5.pass(result.score, sendOptions);
+        } else if (result.final) {
+          await this._cmi5.fail(result.score, sendOptions);
+        }
+      }
+    } catch (err) {
+      this._result = null;
+      throw err;
+    }
+    return result;
+  }
+
+  // Starts the next attempt with no answers and, with a pool, newly drawn questions
+  public retake(): void {
+    if (!this._result) {
+      throw new Cmi5Error(
+        `Attempt ${this._attempt} of test "${this._testId}" is not finished`
+      );
+    }
+    if (this._result.final) {
+      throw new Cmi5Error(`Test "${this._testId}" cannot be retaken`);
+    }
+    this._attempt++;
+    this._startedAt = new Date();
+    this._answers.clear();
+    this._result = null;
+    this._summarized = null;
+    this._drawQuestions();
+  }
+
+  private async _answer<T extends InteractionDescriptionOptions>(
+    question: AssessmentQuestion<T>,
+    buildStatement: (
+      options: Omit<AssessmentQuestion<T>, "weight"> & { testId: string }
+    ) => Statement
+  ): Promise<AxiosResponse<string[]>> {
+    if (this._result || this._summarized) {
+      throw new Cmi5Error(
+        `Attempt ${this._attempt} of test "${this._testId}" is already finished`
+      );
+    }
+    const { weight, ...rest } = question;
+    if (this._questionIds && !this._questionIds.includes(rest.questionId)) {
+      throw new Cmi5Error(
+        `Question "${rest.questionId}" was not drawn for attempt ${this._attempt} of test "${this._testId}"`
+      );
+    }
+    const options = {
+      partialCredit: this._options.partialCredit,
+      ...rest,
+      testId: this._testId,
+    };
+    const statement = buildStatement(options);
+    const response = await this._cmi5.sendInteractionStatement(
+      statement,
+      options
+    );
+    // Answers skipped or vetoed by middleware resolve without ids and are not scored
+    if (response.data.length) {
+      // A later answer to the same question replaces the earlier one
+      this._answers.set(rest.questionId, {
+        weight: weight ?? this._weight(rest.questionId),
+        credit: resultCredit(statement.result),
+      });
+    }
+    return response;
+  }
+
+  private _attemptResult(finalOption?: boolean): AssessmentResult {
+    const masteryScore =
+      this._cmi5.getLaunchData().masteryScore ?? this._options.passingScore;
+    if (typeof masteryScore !== "number") {
+      throw new Cmi5Error(
+        "A masteryScore or passingScore is required to finish an assessment"
+      );
+    }
+    const score = this.getScore();
+    const passed = score.scaled >= masteryScore;
+    return {
+      attempt: this._attempt,
+      score,
+      passed,
+      final: passed || Boolean(finalOption) || !this._hasAttemptsLeft(),
+    };
+  }
+
+  private _weight(questionId: string): number {
+    return this._options.weights?.[questionId] ?? 1;
+  }
+
+  private _hasAttemptsLeft(): boolean {
+    return (
+      this._options.maxAttempts === undefined ||
+      this._attempt < this._options.maxAttempts
+    );
+  }
+
+  private _drawQuestions(): void {
+    const pool = this._options.questionPool;
+    this._questionIds = pool
+      ? _draw(
+          pool,
+          this._options.questionsPerAttempt ?? pool.length,
+          this._options.random || Math.random
+        )
+      : null;
+  }
+}
@@ -1,4 +1,8 @@
 export class Cmi5ContextExtension {
   public static readonly MASTERY_SCORE =
     "https://w3id.org/xapi/cmi5/context/extensions/masteryscore";
+  public static readonly SESSION_ID =
+    "https://w3id.org/xapi/cmi5/context/extensions/sessionid";
+  public static readonly LAUNCH_MODE =
+    "https://w3id.org/xapi/cmi5/context/extensions/launchmode";
 }
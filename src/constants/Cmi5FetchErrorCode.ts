@@ -0,0 +1,6 @@
+// 8.2.3 fetch - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#823-fetch
+export class Cmi5FetchErrorCode {
+  public static readonly ALREADY_IN_USE = 1;
+  public static readonly GENERAL_SECURITY_ERROR = 2;
+  public static readonly GENERAL_APPLICATION_ERROR = 3;
+}
@@ -0,0 +1,25 @@
+import { Verb } from "@xapi/xapi";
+
+// 9.3 Verbs sent only by the LMS - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#93-verbs
+export class Cmi5LmsVerbs {
+  // 9.3.1 Launched
+  public static readonly LAUNCHED: Verb = {
+    id: "http://adlnet.gov/expapi/verbs/launched",
+    display: { "en-US": "launched" },
+  };
+  // 9.3.6 Abandoned
+  public static readonly ABANDONED: Verb = {
+    id: "https://w3id.org/xapi/adl/verbs/abandoned",
+    display: { "en-US": "abandoned" },
+  };
+  // 9.3.7 Waived
+  public static readonly WAIVED: Verb = {
+    id: "https://w3id.org/xapi/adl/verbs/waived",
+    display: { "en-US": "waived" },
+  };
+  // 9.3.9 Satisfied
+  public static readonly SATISFIED: Verb = {
+    id: "https://w3id.org/xapi/adl/verbs/satisfied",
+    display: { "en-US": "satisfied" },
+  };
+}
@@ -1,4 +1,10 @@
 export class Cmi5ResultExtension {
   public static readonly PROGRESS =
     "https://w3id.org/xapi/cmi5/result/extensions/progress";
+  // Not defined by cmi5, the elapsed time since initialize when `duration` only counts active time
+  public static readonly WALL_CLOCK_DURATION =
+    "https://www.xapijs.dev/cmi5/result/extensions/wallclockduration";
+  // Not defined by cmi5, the attempt number of an assessment summary statement
+  public static readonly ATTEMPT =
+    "https://www.xapijs.dev/cmi5/result/extensions/attempt";
 }
@@ -0,0 +1,6 @@
+export class Cmi5StateId {
+  // 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
+  public static readonly LAUNCH_DATA = "LMS.LaunchData";
+  public static readonly BOOKMARK = "cmi5.bookmark";
+  public static readonly SUSPEND_DATA = "cmi5.suspendData";
+}
@@ -0,0 +1,14 @@
+// Identifies the rule reported in each `Cmi5ValidationIssue`
+export class Cmi5ValidationRule {
+  public static readonly ACTOR = "actor";
+  public static readonly REGISTRATION = "registration";
+  public static readonly CMI5_CATEGORY = "cmi5-category";
+  public static readonly MOVE_ON_CATEGORY = "moveon-category";
+  public static readonly OBJECT = "object";
+  public static readonly RESULT = "result";
+  public static readonly DURATION = "duration";
+  public static readonly MASTERY_SCORE = "masteryscore";
+  public static readonly PROGRESS = "progress";
+  public static readonly OBJECTIVE = "objective";
+  public static readonly DISALLOWED_VERB = "disallowed-verb";
+}
@@ -1,5 +1,9 @@
 export * from "./Cmi5ContextActivity";
 export * from "./Cmi5ContextExtension";
 export * from "./Cmi5DefinedVerbs";
+export * from "./Cmi5FetchErrorCode";
 export * from "./Cmi5InteractionType";
+export * from "./Cmi5LmsVerbs";
 export * from "./Cmi5ResultExtension";
+export * from "./Cmi5StateId";
+export * from "./Cmi5ValidationRule";
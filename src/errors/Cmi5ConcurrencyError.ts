@@ -0,0 +1,10 @@
+import { AxiosResponse } from "axios";
+import { Cmi5LrsError } from "./Cmi5LrsError";
+
+// The document was changed by someone else, e.g. the AU open in another tab, since it was last read
+export class Cmi5ConcurrencyError extends Cmi5LrsError {
+  constructor(message: string, response?: AxiosResponse, cause?: unknown) {
+    super(message, response, cause);
+    this.name = "Cmi5ConcurrencyError";
+  }
+}
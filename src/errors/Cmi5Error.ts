@@ -0,0 +1,9 @@
+export class Cmi5Error extends Error {
+  public readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "Cmi5Error";
+    this.cause = cause;
+  }
+}
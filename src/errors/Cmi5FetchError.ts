@@ -0,0 +1,37 @@
+import { AxiosResponse } from "axios";
+import { Cmi5FetchErrorCode } from "../constants";
+import { Cmi5Error } from "./Cmi5Error";
+
+const DEFAULT_ERROR_TEXT: { [errorCode: number]: string } = {
+  [Cmi5FetchErrorCode.ALREADY_IN_USE]:
+    "The fetch URL has already been used, the AU must be launched again from the LMS",
+  [Cmi5FetchErrorCode.GENERAL_SECURITY_ERROR]:
+    "The LMS refused to provide an auth token (general security error)",
+  [Cmi5FetchErrorCode.GENERAL_APPLICATION_ERROR]:
+    "The LMS was unable to provide an auth token (general application error)",
+};
+
+export class Cmi5FetchError extends Cmi5Error {
+  public readonly errorCode: number;
+  public readonly errorText: string;
+  public readonly status?: number;
+  public readonly response?: AxiosResponse;
+
+  constructor(
+    errorCode: number,
+    errorText?: string,
+    response?: AxiosResponse,
+    cause?: unknown
+  ) {
+    const text =
+      errorText ||
+      DEFAULT_ERROR_TEXT[errorCode] ||
+      "The LMS was unable to provide an auth token";
+    super(text, cause);
+    this.name = "Cmi5FetchError";
+    this.errorCode = errorCode;
+    this.errorText = text;
+    this.status = response?.status;
+    this.response = response;
+  }
+}
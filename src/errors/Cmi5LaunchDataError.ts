@@ -0,0 +1,21 @@
+import { Cmi5ValidationIssue } from "../interfaces";
+import { Cmi5Error } from "./Cmi5Error";
+
+export class Cmi5LaunchDataError extends Cmi5Error {
+  public readonly errors: Cmi5ValidationIssue[];
+  public readonly warnings: Cmi5ValidationIssue[];
+
+  constructor(
+    errors: Cmi5ValidationIssue[],
+    warnings: Cmi5ValidationIssue[] = []
+  ) {
+    super(
+      `Invalid LMS.LaunchData: ${errors
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "Cmi5LaunchDataError";
+    this.errors = errors;
+    this.warnings = warnings;
+  }
+}
@@ -0,0 +1,18 @@
+import { LaunchData } from "../interfaces";
+import { Cmi5Error } from "./Cmi5Error";
+
+export class Cmi5LaunchModeError extends Cmi5Error {
+  public readonly verb: string;
+  public readonly launchMode: LaunchData["launchMode"];
+
+  constructor(
+    verb: string,
+    launchMode: LaunchData["launchMode"],
+    message = `Can only send ${verb} when launchMode is 'Normal'`
+  ) {
+    super(message);
+    this.name = "Cmi5LaunchModeError";
+    this.verb = verb;
+    this.launchMode = launchMode;
+  }
+}
@@ -0,0 +1,15 @@
+import { LaunchParameters } from "../interfaces";
+import { Cmi5Error } from "./Cmi5Error";
+
+export class Cmi5LaunchParameterError extends Cmi5Error {
+  public readonly parameter: keyof LaunchParameters;
+
+  constructor(parameter: keyof LaunchParameters, message?: string) {
+    super(
+      message ||
+        `Unable to construct, no \`${parameter}\` parameter found in URL.`
+    );
+    this.name = "Cmi5LaunchParameterError";
+    this.parameter = parameter;
+  }
+}
@@ -0,0 +1,14 @@
+import { AxiosResponse } from "axios";
+import { Cmi5Error } from "./Cmi5Error";
+
+export class Cmi5LrsError extends Cmi5Error {
+  public readonly status?: number;
+  public readonly response?: AxiosResponse;
+
+  constructor(message: string, response?: AxiosResponse, cause?: unknown) {
+    super(message, cause);
+    this.name = "Cmi5LrsError";
+    this.status = response?.status;
+    this.response = response;
+  }
+}
@@ -0,0 +1,13 @@
+import { Cmi5Error } from "./Cmi5Error";
+
+export class Cmi5MasteryScoreError extends Cmi5Error {
+  public readonly score?: number;
+  public readonly masteryScore: number;
+
+  constructor(masteryScore: number, score?: number) {
+    super("Learner has not met Mastery Score");
+    this.name = "Cmi5MasteryScoreError";
+    this.masteryScore = masteryScore;
+    this.score = score;
+  }
+}
@@ -0,0 +1,14 @@
+import { SessionState } from "../interfaces";
+import { Cmi5Error } from "./Cmi5Error";
+
+export class Cmi5SessionStateError extends Cmi5Error {
+  public readonly sessionState: SessionState;
+  public readonly verb?: string;
+
+  constructor(message: string, sessionState: SessionState, verb?: string) {
+    super(message);
+    this.name = "Cmi5SessionStateError";
+    this.sessionState = sessionState;
+    this.verb = verb;
+  }
+}
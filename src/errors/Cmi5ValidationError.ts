@@ -0,0 +1,19 @@
+import { Statement } from "@xapi/xapi";
+import { Cmi5ValidationIssue } from "../interfaces";
+import { Cmi5Error } from "./Cmi5Error";
+
+export class Cmi5ValidationError extends Cmi5Error {
+  public readonly statement: Statement;
+  public readonly issues: Cmi5ValidationIssue[];
+
+  constructor(statement: Statement, issues: Cmi5ValidationIssue[]) {
+    super(
+      `Statement does not conform to cmi5: ${issues
+        .map((issue) => issue.message)
+        .join("; ")}`
+    );
+    this.name = "Cmi5ValidationError";
+    this.statement = statement;
+    this.issues = issues;
+  }
+}
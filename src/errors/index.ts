@@ -0,0 +1,10 @@
+export * from "./Cmi5ConcurrencyError";
+export * from "./Cmi5Error";
+export * from "./Cmi5FetchError";
+export * from "./Cmi5LaunchDataError";
+export * from "./Cmi5LaunchModeError";
+export * from "./Cmi5LaunchParameterError";
+export * from "./Cmi5LrsError";
+export * from "./Cmi5MasteryScoreError";
+export * from "./Cmi5SessionStateError";
+export * from "./Cmi5ValidationError";
@@ -0,0 +1,20 @@
+import { AxiosError } from "axios";
+import { Cmi5Error } from "./Cmi5Error";
+import { Cmi5LrsError } from "./Cmi5LrsError";
+
+// Wraps failed LRS requests in a Cmi5LrsError, passing any other error through unchanged
+export function toLrsError(err: unknown, message: string): unknown {
+  const axiosError = err as AxiosError;
+  if (
+    err instanceof Cmi5Error ||
+    !(axiosError?.isAxiosError || axiosError?.response)
+  ) {
+    return err;
+  }
+  const status = axiosError.response?.status;
+  return new Cmi5LrsError(
+    status ? `${message} (HTTP ${status})` : message,
+    axiosError.response,
+    err
+  );
+}
@@ -0,0 +1,34 @@
+type Listener<T> = (event: T) => void;
+
+export class EventEmitter<EventMap> {
+  private _listeners: {
+    [K in keyof EventMap]?: Listener<EventMap[K]>[];
+  } = {};
+
+  public on<K extends keyof EventMap>(
+    type: K,
+    listener: Listener<EventMap[K]>
+  ): () => void {
+    this._listeners[type] = [...(this._listeners[type] || []), listener];
+    return () => this.off(type, listener);
+  }
+
+  public off<K extends keyof EventMap>(
+    type: K,
+    listener: Listener<EventMap[K]>
+  ): void {
+    this._listeners[type] = (this._listeners[type] || []).filter(
+      (l) => l !== listener
+    );
+  }
+
+  public emit<K extends keyof EventMap>(type: K, event: EventMap[K]): void {
+    (this._listeners[type] || []).forEach((listener) => {
+      try {
+        listener(event);
+      } catch (err) {
+        // A failing listener must not interrupt the AU or other listeners
+      }
+    });
+  }
+}
@@ -0,0 +1,10 @@
+export type PauseReason = "manual" | "hidden" | "idle";
+
+export interface ActivityTrackingOptions {
+  // Pauses while the page is hidden, defaults to true
+  trackVisibility?: boolean;
+  // Milliseconds without user input before the learner is considered idle, 0 disables, defaults to 5 minutes
+  idleTimeout?: number;
+  // Sends ADL "suspended"/"resumed" statements when activity pauses and resumes
+  sendSuspendResumeStatements?: boolean;
+}
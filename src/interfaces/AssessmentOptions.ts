@@ -0,0 +1,33 @@
+import { InteractionDescriptionOptions } from "./InteractionOptions";
+import { SendStatementOptions } from "./SendStatementOptions";
+
+export interface AssessmentOptions {
+  // Points per question id, questions not listed are worth 1
+  weights?: { [questionId: string]: number };
+  // Scores the share of each response that was correct instead of all or nothing
+  partialCredit?: boolean;
+  // Attempts allowed before FAILED is sent, unlimited when omitted
+  maxAttempts?: number;
+  // Question ids to draw each attempt from, unanswered drawn questions score zero
+  questionPool?: string[];
+  // Questions drawn from the pool per attempt, defaults to the whole pool
+  questionsPerAttempt?: number;
+  // Random number generator used to draw questions, defaults to `Math.random`
+  random?: () => number;
+  // Scaled score needed to pass when the LMS did not set a masteryScore
+  passingScore?: number;
+}
+
+// Interaction options without the `testId`, which the assessment provides
+export type AssessmentQuestion<T extends InteractionDescriptionOptions> = Omit<
+  T,
+  "testId"
+> & {
+  // Overrides `AssessmentOptions.weights` for this question
+  weight?: number;
+};
+
+export interface AssessmentFinishOptions extends SendStatementOptions {
+  // Sends FAILED even if attempts remain
+  final?: boolean;
+}
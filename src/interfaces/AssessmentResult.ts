@@ -0,0 +1,9 @@
+import { ResultScore } from "@xapi/xapi";
+
+export interface AssessmentResult {
+  attempt: number;
+  score: ResultScore;
+  passed: boolean;
+  // True when PASSED or FAILED was sent and no retake is possible
+  final: boolean;
+}
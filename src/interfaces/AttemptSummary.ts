@@ -0,0 +1,16 @@
+import { ResultScore } from "@xapi/xapi";
+
+export interface AttemptSummary {
+  completed: boolean;
+  passed: boolean;
+  failed: boolean;
+  // Highest score from any PASSED or FAILED statement
+  bestScore: ResultScore | null;
+  waived: boolean;
+  // Whether the AU's moveOn criteria have been met, or the LMS marked it satisfied or waived
+  satisfied: boolean;
+  // Sessions in this registration before the current one
+  priorSessions: number;
+  // Last progress reported in the most recent prior session
+  lastSessionProgress: number | null;
+}
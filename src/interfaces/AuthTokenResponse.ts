@@ -1,3 +1,5 @@
 export interface AuthTokenResponse {
-  "auth-token": string;
+  "auth-token"?: string;
+  "error-code"?: string;
+  "error-text"?: string;
 }
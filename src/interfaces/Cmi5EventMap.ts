@@ -0,0 +1,24 @@
+import { Statement } from "@xapi/xapi";
+import { PauseReason } from "./ActivityTrackingOptions";
+import { Cmi5ValidationIssue } from "./Cmi5ValidationResult";
+import { LearnerPreferences } from "./LearnerPreferences";
+
+export interface Cmi5EventMap {
+  statementSent: { statement: Statement; statementIds: string[] };
+  statementFailed: { statement: Statement; error: unknown };
+  initialized: { resumed: boolean };
+  // Problems in LMS.LaunchData that were corrected or ignored during initialize
+  launchDataWarnings: { warnings: Cmi5ValidationIssue[] };
+  terminated: { statement: Statement };
+  paused: { reason: PauseReason };
+  resumed: { reason: PauseReason };
+  learnerPreferencesChanged: {
+    learnerPreferences: LearnerPreferences;
+    previous: LearnerPreferences;
+  };
+  error: { error: unknown };
+}
+
+export interface Cmi5EventListener<K extends keyof Cmi5EventMap> {
+  (event: Cmi5EventMap[K]): void;
+}
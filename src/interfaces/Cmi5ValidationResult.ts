@@ -0,0 +1,11 @@
+export interface Cmi5ValidationIssue {
+  rule: string;
+  // Dot separated path into the statement, e.g. `context.registration`
+  path: string;
+  message: string;
+}
+
+export interface Cmi5ValidationResult {
+  valid: boolean;
+  issues: Cmi5ValidationIssue[];
+}
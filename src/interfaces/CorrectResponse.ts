@@ -0,0 +1,32 @@
+import { NumericCriteria } from "./NumericCriteria";
+import { PerformanceCriteria } from "./PerformanceCriteria";
+
+export interface FillInResponseItem {
+  value: string;
+  lang?: string;
+}
+
+export interface MatchingPair {
+  source: string;
+  target: string;
+}
+
+// A correctResponsesPattern string as data, by interaction type
+export type CorrectResponse =
+  | { interactionType: "true-false"; value: boolean }
+  | { interactionType: "choice" | "sequencing"; ids: string[] }
+  | {
+      interactionType: "fill-in" | "long-fill-in";
+      caseMatters?: boolean;
+      orderMatters?: boolean;
+      items: FillInResponseItem[];
+    }
+  | { interactionType: "likert"; id: string }
+  | { interactionType: "matching"; pairs: MatchingPair[] }
+  | {
+      interactionType: "performance";
+      orderMatters?: boolean;
+      steps: PerformanceCriteria[];
+    }
+  | { interactionType: "numeric"; criteria: NumericCriteria }
+  | { interactionType: "other"; value: string };
@@ -0,0 +1,8 @@
+export interface I18nMessages {
+  [key: string]: string | I18nMessages;
+}
+
+// Messages by language tag, such as `{ "en-US": { q1: { name: "..." } } }`
+export interface I18nDictionary {
+  [language: string]: I18nMessages;
+}
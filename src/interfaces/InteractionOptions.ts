@@ -0,0 +1,104 @@
+import {
+  InteractionActivityDefinition,
+  ObjectiveActivity,
+  ResultScore,
+} from "@xapi/xapi";
+import { LocalizedInteractionComponent, LocalizedText } from "./LocalizedText";
+import { NumericCriteria } from "./NumericCriteria";
+import { Performance } from "./Performance";
+import { PerformanceCriteria } from "./PerformanceCriteria";
+import { Period } from "./Period";
+import { SendStatementOptions } from "./SendStatementOptions";
+
+export interface InteractionBaseOptions extends SendStatementOptions {
+  testId: string;
+  questionId: string;
+  // Evaluated from the correct answer when omitted
+  success?: boolean;
+  score?: ResultScore;
+  duration?: Period;
+  // An objective activity, or the key of one registered with `registerObjectives()`
+  objective?: ObjectiveActivity | string;
+}
+
+export interface InteractionDescriptionOptions extends InteractionBaseOptions {
+  name?: LocalizedText;
+  description?: LocalizedText;
+  // Scores the share of the response that was correct when `score` is omitted
+  partialCredit?: boolean;
+}
+
+export interface InteractionOptions extends InteractionBaseOptions {
+  response: string;
+  interactionDefinition: InteractionActivityDefinition;
+}
+
+export interface TrueFalseInteractionOptions
+  extends InteractionDescriptionOptions {
+  answer: boolean;
+  correctAnswer?: boolean;
+}
+
+export interface ChoiceInteractionOptions
+  extends InteractionDescriptionOptions {
+  answerIds: string[];
+  correctAnswerIds?: string[];
+  choices?: LocalizedInteractionComponent[];
+}
+
+// xAPI Correct Responses Pattern - https://github.com/adlnet/xAPI-Spec/blob/master/xAPI-Data.md#correct-responses-pattern
+export interface FillInMatchOptions {
+  // Defaults to false
+  caseMatters?: boolean;
+  // Defaults to true
+  orderMatters?: boolean;
+}
+
+export interface FillInInteractionOptions
+  extends InteractionDescriptionOptions,
+    FillInMatchOptions {
+  answers: string[];
+  correctAnswers?: string[];
+}
+
+export type LongFillInInteractionOptions = FillInInteractionOptions;
+
+export interface LikertInteractionOptions
+  extends InteractionDescriptionOptions {
+  answerId: string;
+  correctAnswerId?: string;
+  scale?: LocalizedInteractionComponent[];
+}
+
+export interface MatchingInteractionOptions
+  extends InteractionDescriptionOptions {
+  answers: { [sourceId: string]: string };
+  correctAnswers?: { [sourceId: string]: string };
+  source?: LocalizedInteractionComponent[];
+  target?: LocalizedInteractionComponent[];
+}
+
+export interface PerformanceInteractionOptions
+  extends InteractionDescriptionOptions {
+  answers: Performance;
+  correctAnswers?: PerformanceCriteria[];
+  steps?: LocalizedInteractionComponent[];
+}
+
+export interface SequencingInteractionOptions
+  extends InteractionDescriptionOptions {
+  answerIds: string[];
+  correctAnswerIds?: string[];
+  choices?: LocalizedInteractionComponent[];
+}
+
+export interface NumericInteractionOptions
+  extends InteractionDescriptionOptions {
+  answer: number;
+  correctAnswer?: NumericCriteria;
+}
+
+export interface OtherInteractionOptions extends InteractionDescriptionOptions {
+  answer: string;
+  correctAnswer?: string;
+}
@@ -0,0 +1,6 @@
+export interface InteractionScore {
+  success: boolean;
+  // Parts of the response that were correct, out of `max`
+  raw: number;
+  max: number;
+}
@@ -1,3 +1,4 @@
+import { ObjectiveActivity } from "@xapi/xapi";
 import { LaunchParameters } from "./LaunchParameters";
 import { LaunchData } from "./LaunchData";
 
@@ -5,4 +6,12 @@ export interface LaunchContext {
   initializedDate: Date;
   launchParameters: LaunchParameters;
   launchData: LaunchData;
+  // Milliseconds of active time, when activity tracking is enabled
+  activeDuration?: number | null;
+  // Registered objectives by key, see `registerObjectives()`
+  objectiveActivities?: { [key: string]: ObjectiveActivity };
+  // Objectives with an objective PASSED statement, added to the AU's PASSED statement
+  satisfiedObjectives?: ObjectiveActivity[];
+  // Language tag for names and descriptions given as plain strings
+  defaultLanguage?: string;
 }
@@ -0,0 +1,10 @@
+export interface LaunchDataReport {
+  error(path: string, message: string): void;
+  warning(path: string, message: string): void;
+}
+
+// Checks one part of LMS.LaunchData, normalizing safe variants in place and reporting anything else
+export interface LaunchDataRule {
+  name: string;
+  apply(launchData: Record<string, unknown>, report: LaunchDataReport): void;
+}
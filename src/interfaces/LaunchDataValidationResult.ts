@@ -0,0 +1,10 @@
+import { Cmi5ValidationIssue } from "./Cmi5ValidationResult";
+import { LaunchData } from "./LaunchData";
+
+export interface LaunchDataValidationResult {
+  valid: boolean;
+  // The normalized launch data, only usable when `valid`
+  launchData: LaunchData;
+  errors: Cmi5ValidationIssue[];
+  warnings: Cmi5ValidationIssue[];
+}
@@ -0,0 +1,5 @@
+// How statements the current launch mode does not allow are handled:
+// "throw" rejects them, "skip" resolves without sending and "tag" sends them marked with the launch mode.
+// Without a policy only moveOn statements outside of Normal mode are rejected,
+// setting one also restricts answers and progress in Review mode
+export type LaunchModePolicy = "throw" | "skip" | "tag";
@@ -0,0 +1,9 @@
+import { LanguageMap } from "@xapi/xapi";
+
+// A LanguageMap, or a plain string in the instance's default language
+export type LocalizedText = LanguageMap | string;
+
+export interface LocalizedInteractionComponent {
+  id: string;
+  description?: LocalizedText;
+}
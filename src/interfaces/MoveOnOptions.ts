@@ -3,5 +3,7 @@ import { ResultScore } from "@xapi/xapi/";
 
 export interface MoveOnOptions extends SendStatementOptions {
   score?: ResultScore | number;
+  success?: boolean;
   disableSendTerminated?: boolean;
+  batch?: boolean;
 }
@@ -0,0 +1,10 @@
+import { Verb } from "@xapi/xapi";
+
+export interface MoveOnResult {
+  statementIds: string[];
+  verbs: Verb[];
+  completed: boolean;
+  passed: boolean;
+  failed: boolean;
+  satisfied: boolean;
+}
@@ -0,0 +1,10 @@
+import { LanguageMap } from "@xapi/xapi";
+
+export interface ObjectiveDefinition {
+  // Activity ID of the objective
+  id: string;
+  name?: LanguageMap;
+  description?: LanguageMap;
+  // Scaled score of the objective's interactions needed to satisfy it, used by `evaluateObjective()`
+  masteryScore?: number;
+}
@@ -0,0 +1,10 @@
+import { ObjectiveActivity, ResultScore } from "@xapi/xapi";
+
+export interface ObjectiveStatus {
+  key: string;
+  objective: ObjectiveActivity;
+  // Aggregated from the interactions referencing the objective, null until one is scored
+  score: ResultScore | null;
+  // Whether an objective PASSED or FAILED was sent, null until then
+  satisfied: boolean | null;
+}
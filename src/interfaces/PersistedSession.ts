@@ -0,0 +1,18 @@
+import { LaunchData } from "./LaunchData";
+import { LearnerPreferences } from "./LearnerPreferences";
+import { QueuedStatement } from "./QueueStorage";
+import { SessionState } from "./SessionState";
+
+export interface PersistedSession {
+  // The launch's fetch URL, so a new launch in the same registration starts a new session
+  fetchUrl: string;
+  authToken: string;
+  initializedDate: string;
+  // Milliseconds of active time so far, the time the page was closed is not active
+  activeDuration: number | null;
+  launchData: LaunchData;
+  learnerPreferences: LearnerPreferences;
+  sessionState: SessionState;
+  sentDefinedVerbs: string[];
+  pendingStatements: QueuedStatement[];
+}
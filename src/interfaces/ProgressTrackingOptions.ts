@@ -0,0 +1,8 @@
+export interface ProgressTrackingOptions {
+  // Milliseconds to wait after a PROGRESSED statement before sending another, defaults to 5 seconds
+  minInterval?: number;
+  // Smallest increase in percent worth sending, defaults to 1
+  minDelta?: number;
+  // Sections or pages that must all be completed for 100%, used by `completeSection()`
+  sections?: string[];
+}
@@ -0,0 +1,12 @@
+import { Statement } from "@xapi/xapi";
+
+export interface QueuedStatement {
+  statement: Statement;
+  attempts: number;
+  enqueuedAt: string;
+}
+
+export interface QueueStorage {
+  load(): Promise<QueuedStatement[]>;
+  save(items: QueuedStatement[]): Promise<void>;
+}
@@ -2,4 +2,6 @@ import { StatementTransform } from "./";
 
 export interface SendStatementOptions {
   transform?: StatementTransform;
+  // Validates the statement against cmi5 rules and rejects without sending when it does not conform
+  strict?: boolean;
 }
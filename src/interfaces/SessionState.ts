@@ -0,0 +1,5 @@
+export type SessionState =
+  | "uninitialized"
+  | "initializing"
+  | "active"
+  | "terminated";
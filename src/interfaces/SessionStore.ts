@@ -0,0 +1,8 @@
+import { PersistedSession } from "./PersistedSession";
+
+// Sessions are keyed by registration and AU, see `AbstractCmi5.sessionKey`
+export interface SessionStore {
+  load(sessionKey: string): Promise<PersistedSession | null>;
+  save(sessionKey: string, session: PersistedSession): Promise<void>;
+  remove(sessionKey: string): Promise<void>;
+}
@@ -0,0 +1,4 @@
+export interface StateSaveOptions {
+  // Waits this many milliseconds for further changes and saves only the latest value
+  debounce?: number;
+}
@@ -0,0 +1,10 @@
+import { Statement } from "@xapi/xapi";
+import { LaunchContext } from "./LaunchContext";
+
+// Returning `null` or `false` vetoes the statement so that it is not sent
+export interface StatementMiddleware {
+  (
+    statement: Statement,
+    ctx: LaunchContext
+  ): Statement | null | false | Promise<Statement | null | false>;
+}
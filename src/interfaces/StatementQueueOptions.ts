@@ -0,0 +1,8 @@
+import { QueueStorage } from "./QueueStorage";
+
+export interface StatementQueueOptions {
+  storage?: QueueStorage;
+  initialRetryDelay?: number;
+  maxRetryDelay?: number;
+  backoffFactor?: number;
+}
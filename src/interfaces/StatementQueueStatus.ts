@@ -0,0 +1,5 @@
+export interface StatementQueueStatus {
+  pending: number;
+  isFlushing: boolean;
+  lastError: unknown | null;
+}
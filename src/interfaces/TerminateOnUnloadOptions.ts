@@ -0,0 +1,5 @@
+export interface TerminateOnUnloadOptions {
+  // "visibilitychange" also fires when switching tabs, so it is only used when opted in
+  useVisibilityChange?: boolean;
+  transport?: "fetch" | "beacon";
+}
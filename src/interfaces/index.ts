@@ -1,13 +1,40 @@
+export * from "./ActivityTrackingOptions";
+export * from "./AssessmentOptions";
+export * from "./AssessmentResult";
+export * from "./AttemptSummary";
 export * from "./AuthTokenResponse";
+export * from "./Cmi5EventMap";
+export * from "./Cmi5ValidationResult";
+export * from "./CorrectResponse";
+export * from "./I18nDictionary";
+export * from "./InteractionOptions";
+export * from "./InteractionScore";
 export * from "./LaunchContext";
 export * from "./LaunchData";
+export * from "./LaunchDataRule";
+export * from "./LaunchDataValidationResult";
+export * from "./LaunchModePolicy";
 export * from "./LaunchParameters";
 export * from "./LearnerPreferences";
+export * from "./LocalizedText";
 export * from "./MoveOnOptions";
+export * from "./MoveOnResult";
 export * from "./NumericCriteria";
+export * from "./ObjectiveDefinition";
+export * from "./ObjectiveStatus";
 export * from "./Performance";
 export * from "./PerformanceCriteria";
 export * from "./Period";
 export * from "./PassOptions";
+export * from "./PersistedSession";
+export * from "./ProgressTrackingOptions";
+export * from "./QueueStorage";
 export * from "./SendStatementOptions";
+export * from "./SessionState";
+export * from "./SessionStore";
+export * from "./StateSaveOptions";
+export * from "./StatementMiddleware";
+export * from "./StatementQueueOptions";
+export * from "./StatementQueueStatus";
 export * from "./StatementTransform";
+export * from "./TerminateOnUnloadOptions";
@@ -0,0 +1,100 @@
+import { LanguageMap } from "@xapi/xapi";
+import { I18nDictionary, I18nMessages, LocalizedText } from "../interfaces";
+import { Cmi5Error } from "../errors";
+
+// BCP 47 tag for an undetermined language
+const UNDETERMINED = "und";
+
+function _findKey(keys: string[], tag: string): string | undefined {
+  return keys.find((key) => key.toLowerCase() === tag);
+}
+
+function _primaryLanguage(tag: string): string {
+  return tag.toLowerCase().split("-")[0];
+}
+
+// RFC 4647 Lookup - https://www.rfc-editor.org/rfc/rfc4647#section-3.4
+function _lookup(keys: string[], range: string): string | undefined {
+  const subtags = range.toLowerCase().split("-");
+  while (subtags.length) {
+    const key = _findKey(keys, subtags.join("-"));
+    if (key) return key;
+    subtags.pop();
+    // A single character subtag is an extension or private use prefix, meaningless on its own
+    if (subtags.length && subtags[subtags.length - 1].length === 1) {
+      subtags.pop();
+    }
+  }
+  // Otherwise any region or script of the same language, such as "en-US" for "en-GB"
+  return keys.find((key) => _primaryLanguage(key) === _primaryLanguage(range));
+}
+
+function _message(messages: I18nMessages, path: string): string | undefined {
+  if (typeof messages[path] === "string") {
+    return messages[path] as string;
+  }
+  const value = path
+    .split(".")
+    .reduce<
+      string | I18nMessages | undefined
+    >((node, segment) => (node && typeof node === "object" ? node[segment] : undefined), messages);
+  return typeof value === "string" ? value : undefined;
+}
+
+// Splits a cmi5 languagePreference, such as "en-US,fr-FR", ignoring any quality values
+export function parseLanguagePreference(languagePreference?: string): string[] {
+  return (languagePreference || "")
+    .split(",")
+    .map((range) => range.split(";")[0].trim())
+    .filter((range) => range && range !== "*");
+}
+
+/**
+ * Picks the string for the first preferred language the map has, falling back to the
+ * undetermined language and then to any entry.
+ */
+export function resolveLanguageMap(
+  languageMap: LanguageMap | undefined,
+  preferences: string[] | string = []
+): string | undefined {
+  const keys = Object.keys(languageMap || {});
+  if (!keys.length) {
+    return undefined;
+  }
+  const ranges =
+    typeof preferences === "string"
+      ? parseLanguagePreference(preferences)
+      : preferences;
+  for (const range of ranges) {
+    const key = _lookup(keys, range);
+    if (key) return languageMap[key];
+  }
+  return languageMap[_findKey(keys, UNDETERMINED) || keys[0]];
+}
+
+export function toLanguageMap(
+  text: LocalizedText,
+  language: string = UNDETERMINED
+): LanguageMap {
+  return typeof text === "string" ? { [language]: text } : text;
+}
+
+// Collects the message at a key, which may be a dot separated path, from every language
+export function languageMapFromDictionary(
+  dictionary: I18nDictionary,
+  key: string
+): LanguageMap {
+  const languageMap: LanguageMap = {};
+  Object.keys(dictionary).forEach((language) => {
+    const message = _message(dictionary[language], key);
+    if (message !== undefined) {
+      languageMap[language] = message;
+    }
+  });
+  if (!Object.keys(languageMap).length) {
+    throw new Cmi5Error(
+      `No language in the dictionary has the message "${key}"`
+    );
+  }
+  return languageMap;
+}
@@ -0,0 +1,82 @@
+import { Agent } from "@xapi/xapi";
+import { LaunchParameters } from "../interfaces";
+import { Cmi5LaunchParameterError } from "../errors";
+
+function _toSearchParams(
+  params: URLSearchParams | string | Record<string, string>
+): URLSearchParams {
+  if (params instanceof URLSearchParams) return params;
+  if (typeof params === "string") {
+    // Accepts a full launch URL as well as just its query string
+    const query = params.includes("?")
+      ? params.substring(params.indexOf("?") + 1)
+      : params;
+    return new URLSearchParams(query.split("#")[0]);
+  }
+  return new URLSearchParams(params);
+}
+
+function _parseUrl(parameter: "endpoint" | "fetch", value: string): string {
+  try {
+    new URL(value);
+    return value;
+  } catch (err) {
+    throw new Cmi5LaunchParameterError(
+      parameter,
+      `Unable to construct, \`${parameter}\` parameter is not an absolute URL.`
+    );
+  }
+}
+
+function _parseActor(value: string): Agent {
+  let actor: Record<string, unknown>;
+  try {
+    actor = JSON.parse(value);
+  } catch (err) {
+    throw new Cmi5LaunchParameterError(
+      "actor",
+      "Unable to construct, `actor` parameter is not valid JSON."
+    );
+  }
+  if (typeof actor !== "object" || actor === null || Array.isArray(actor)) {
+    throw new Cmi5LaunchParameterError(
+      "actor",
+      "Unable to construct, `actor` parameter is not an Agent."
+    );
+  }
+  // Some LMSs send TinCan style actors with single item arrays, e.g. `"account": [{...}]`
+  ["name", "mbox", "account"].forEach((key) => {
+    if (Array.isArray(actor[key])) {
+      actor[key] = actor[key][0];
+    }
+  });
+  // 9.2 Actor - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#92-actor
+  if (!actor.account && !actor.mbox && !actor.mbox_sha1sum && !actor.openid) {
+    throw new Cmi5LaunchParameterError(
+      "actor",
+      "Unable to construct, `actor` parameter has no identifier."
+    );
+  }
+  return actor as unknown as Agent;
+}
+
+// 8.1 Launch Method - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#81-launch-method
+export function parseLaunchParameters(
+  params: URLSearchParams | string | Record<string, string>
+): LaunchParameters {
+  const searchParams = _toSearchParams(params);
+  const required = (parameter: keyof LaunchParameters): string => {
+    const value = searchParams.get(parameter);
+    if (!value) {
+      throw new Cmi5LaunchParameterError(parameter);
+    }
+    return value;
+  };
+  return {
+    fetch: _parseUrl("fetch", required("fetch")),
+    endpoint: _parseUrl("endpoint", required("endpoint")),
+    actor: _parseActor(required("actor")),
+    activityId: required("activityId"),
+    registration: required("registration"),
+  };
+}
@@ -0,0 +1,140 @@
+import { ObjectiveActivity, ResultScore, Statement } from "@xapi/xapi";
+import { ObjectiveDefinition, ObjectiveStatus } from "../interfaces";
+import { Cmi5Error } from "../errors";
+import { resultCredit } from "../scoring";
+
+interface RegisteredObjective {
+  activity: ObjectiveActivity;
+  masteryScore?: number;
+  // Credit per interaction activity ID, so a later answer replaces an earlier one
+  credits: Map<string, number>;
+  satisfied: boolean | null;
+}
+
+function _objectiveActivity({
+  id,
+  name,
+  description,
+}: ObjectiveDefinition): ObjectiveActivity {
+  return {
+    objectType: "Activity",
+    id,
+    definition: {
+      type: "http://adlnet.gov/expapi/activities/objective",
+      ...(name ? { name } : {}),
+      ...(description ? { description } : {}),
+    },
+  };
+}
+
+/**
+ * The AU's objectives by key, aggregating the scores of the interactions that reference them.
+ */
+export class ObjectiveRegistry {
+  private _objectives: Map<string, RegisteredObjective> = new Map();
+
+  public register(objectives: { [key: string]: ObjectiveDefinition }): void {
+    Object.keys(objectives).forEach((key) => {
+      const definition = objectives[key];
+      const { masteryScore } = definition;
+      if (
+        masteryScore !== undefined &&
+        !(
+          typeof masteryScore === "number" &&
+          masteryScore >= 0 &&
+          masteryScore <= 1
+        )
+      ) {
+        throw new Cmi5Error(
+          `Objective "${key}" masteryScore must be a number from 0 to 1, got ${masteryScore}`
+        );
+      }
+      this._objectives.set(key, {
+        activity: _objectiveActivity(definition),
+        masteryScore,
+        credits: new Map(),
+        satisfied: null,
+      });
+    });
+  }
+
+  public has(key: string): boolean {
+    return this._objectives.has(key);
+  }
+
+  public getActivity(key: string): ObjectiveActivity {
+    return this._get(key).activity;
+  }
+
+  public getActivities(): { [key: string]: ObjectiveActivity } {
+    const activities: { [key: string]: ObjectiveActivity } = {};
+    this._objectives.forEach(({ activity }, key) => {
+      activities[key] = activity;
+    });
+    return activities;
+  }
+
+  public getMasteryScore(key: string): number | undefined {
+    return this._get(key).masteryScore;
+  }
+
+  // Credits each registered objective in the statement's context with the statement's result
+  public record(statement: Statement): void {
+    const parent = statement.context?.contextActivities?.parent;
+    const credit = resultCredit(statement.result);
+    const objectId = (statement.object as { id?: string }).id;
+    if (credit === null || !objectId || !parent) {
+      return;
+    }
+    [].concat(parent).forEach((activity: { id: string }) => {
+      this._objectives.forEach((objective) => {
+        if (objective.activity.id === activity.id) {
+          objective.credits.set(objectId, credit);
+        }
+      });
+    });
+  }
+
+  // Each scored interaction counts as one point
+  public getScore(key: string): ResultScore | null {
+    const credits = Array.from(this._get(key).credits.values());
+    if (!credits.length) {
+      return null;
+    }
+    const raw = credits.reduce((sum, credit) => sum + credit, 0);
+    return {
+      scaled: raw / credits.length,
+      raw,
+      min: 0,
+      max: credits.length,
+    };
+  }
+
+  public setSatisfied(key: string, satisfied: boolean): void {
+    this._get(key).satisfied = satisfied;
+  }
+
+  public getSatisfied(): ObjectiveActivity[] {
+    return Array.from(this._objectives.values())
+      .filter(({ satisfied }) => satisfied === true)
+      .map(({ activity }) => activity);
+  }
+
+  public getStatus(key: string): ObjectiveStatus {
+    const { activity, satisfied } = this._get(key);
+    return {
+      key,
+      objective: activity,
+      score: this.getScore(key),
+      satisfied,
+    };
+  }
+
+  private _get(key: string): RegisteredObjective {
+    const objective = this._objectives.get(key);
+    if (!objective) {
+      throw new Cmi5Error(`Objective "${key}" is not registered`);
+    }
+    return objective;
+  }
+}
@@ -0,0 +1,283 @@
+import { InteractionActivityDefinition } from "@xapi/xapi";
+import {
+  CorrectResponse,
+  FillInResponseItem,
+  NumericCriteria,
+  NumericRange,
+  PerformanceCriteria,
+} from "../interfaces";
+import { Cmi5Error } from "../errors";
+
+/*
+ * xAPI Correct Responses Pattern - https://github.com/adlnet/xAPI-Spec/blob/master/xAPI-Data.md#correct-responses-pattern
+ *
+ * A backslash escapes the next character, so values may contain "[,]", "[.]", ":" or a
+ * leading "{" without being read as delimiters or parameters.
+ */
+
+const ITEM_DELIMITER = "[,]";
+const PAIR_DELIMITER = "[.]";
+const RANGE_DELIMITER = "[:]";
+const PARAMETER = /^\{(case_matters|order_matters|lang)=([^}]*)\}/;
+
+function _escape(value: string, characters = "\\["): string {
+  const escaped = value.replace(
+    new RegExp(`[${characters.replace(/[\\\]]/g, "\\$&")}]`, "g"),
+    "\\$&"
+  );
+  return escaped.startsWith("{") ? `\\${escaped}` : escaped;
+}
+
+function _unescape(value: string): string {
+  return value.replace(/\\(.)/g, "$1");
+}
+
+// Splits on a delimiter that is not escaped, leaving the parts escaped
+function _split(pattern: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === "\\") {
+      current += pattern.substring(i, i + 2);
+      i++;
+    } else if (pattern.startsWith(delimiter, i)) {
+      parts.push(current);
+      current = "";
+      i += delimiter.length - 1;
+    } else {
+      current += pattern[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function _parseParameters(pattern: string): {
+  parameters: { [name: string]: string };
+  rest: string;
+} {
+  const parameters: { [name: string]: string } = {};
+  let rest = pattern;
+  let match = PARAMETER.exec(rest);
+  while (match) {
+    parameters[match[1]] = match[2];
+    rest = rest.substring(match[0].length);
+    match = PARAMETER.exec(rest);
+  }
+  return { parameters, rest };
+}
+
+function _parseBoolean(value: string, name: string): boolean {
+  if (value === "true" || value === "false") return value === "true";
+  throw new Cmi5Error(`Expected ${name} to be true or false, got '${value}'`);
+}
+
+function _parseNumber(value: string, pattern: string): number | undefined {
+  if (value === "") return undefined;
+  const n = Number(value);
+  if (isNaN(n)) {
+    throw new Cmi5Error(`Invalid number '${value}' in pattern '${pattern}'`);
+  }
+  return n;
+}
+
+function _parseNumericCriteria(
+  pattern: string,
+  delimiter: string
+): NumericCriteria {
+  const parts = _split(pattern, delimiter);
+  if (parts.length === 1) {
+    return { exact: _parseNumber(pattern, pattern) };
+  }
+  const [min, max] = parts.map((part) => _parseNumber(part, pattern));
+  return {
+    ...(min !== undefined ? { min } : {}),
+    ...(max !== undefined ? { max } : {}),
+  };
+}
+
+function _formatNumericCriteria(
+  criteria: NumericCriteria,
+  delimiter: string
+): string {
+  if ("exact" in criteria) {
+    return String(criteria.exact);
+  }
+  const { min, max } = criteria as NumericRange;
+  return `${min ?? ""}${delimiter}${max ?? ""}`;
+}
+
+function _parseFillInItem(pattern: string): FillInResponseItem {
+  const { parameters, rest } = _parseParameters(pattern);
+  return {
+    value: _unescape(rest),
+    ...(parameters.lang ? { lang: parameters.lang } : {}),
+  };
+}
+
+// Exact step values are kept as strings as the pattern does not say whether they are numbers
+function _parsePerformanceStep(pattern: string): PerformanceCriteria {
+  const [id, criteria = ""] = _split(pattern, PAIR_DELIMITER);
+  const step = { id: _unescape(id) };
+  if (criteria === "") return step;
+  // A plain colon, as written by earlier versions, is also read as a range
+  const delimiter =
+    _split(criteria, RANGE_DELIMITER).length > 1 ? RANGE_DELIMITER : ":";
+  if (_split(criteria, delimiter).length > 1) {
+    return { ...step, ..._parseNumericCriteria(criteria, delimiter) };
+  }
+  return { ...step, exact: _unescape(criteria) };
+}
+
+function _formatPerformanceStep(step: PerformanceCriteria): string {
+  const id = _escape(step.id);
+  if ("exact" in step && step.exact !== undefined) {
+    return `${id}${PAIR_DELIMITER}${_escape(String(step.exact), "\\[:")}`;
+  }
+  if ("min" in step || "max" in step) {
+    return `${id}${PAIR_DELIMITER}${_formatNumericCriteria(
+      step,
+      RANGE_DELIMITER
+    )}`;
+  }
+  return `${id}${PAIR_DELIMITER}`;
+}
+
+function _formatParameter(name: string, value?: boolean | string): string {
+  return value !== undefined ? `{${name}=${value}}` : "";
+}
+
+export function parseCorrectResponsesPattern(
+  interactionType: InteractionActivityDefinition["interactionType"],
+  pattern: string
+): CorrectResponse {
+  switch (interactionType) {
+    case "true-false":
+      return {
+        interactionType,
+        value: _parseBoolean(pattern, "true-false response"),
+      };
+    case "choice":
+    case "sequencing":
+      return {
+        interactionType,
+        ids:
+          pattern === "" ? [] : _split(pattern, ITEM_DELIMITER).map(_unescape),
+      };
+    case "fill-in":
+    case "long-fill-in": {
+      const { parameters, rest } = _parseParameters(pattern);
+      const items =
+        rest === "" ? [] : _split(rest, ITEM_DELIMITER).map(_parseFillInItem);
+      if (parameters.lang && items.length) {
+        // A language given before the first item applies to that item
+        items[0] = { ...items[0], lang: items[0].lang || parameters.lang };
+      }
+      return {
+        interactionType,
+        ...(parameters.case_matters
+          ? {
+              caseMatters: _parseBoolean(
+                parameters.case_matters,
+                "case_matters"
+              ),
+            }
+          : {}),
+        ...(parameters.order_matters
+          ? {
+              orderMatters: _parseBoolean(
+                parameters.order_matters,
+                "order_matters"
+              ),
+            }
+          : {}),
+        items,
+      };
+    }
+    case "likert":
+      return { interactionType, id: _unescape(pattern) };
+    case "matching":
+      return {
+        interactionType,
+        pairs:
+          pattern === ""
+            ? []
+            : _split(pattern, ITEM_DELIMITER).map((pair) => {
+                const [source, target = ""] = _split(pair, PAIR_DELIMITER);
+                return { source: _unescape(source), target: _unescape(target) };
+              }),
+      };
+    case "performance": {
+      const { parameters, rest } = _parseParameters(pattern);
+      return {
+        interactionType,
+        ...(parameters.order_matters
+          ? {
+              orderMatters: _parseBoolean(
+                parameters.order_matters,
+                "order_matters"
+              ),
+            }
+          : {}),
+        steps:
+          rest === ""
+            ? []
+            : _split(rest, ITEM_DELIMITER).map(_parsePerformanceStep),
+      };
+    }
+    case "numeric":
+      return {
+        interactionType,
+        // A plain colon, as written by earlier versions, is also read as a range
+        criteria: _parseNumericCriteria(
+          pattern,
+          _split(pattern, RANGE_DELIMITER).length > 1 ? RANGE_DELIMITER : ":"
+        ),
+      };
+    case "other":
+      return { interactionType, value: pattern };
+    default:
+      throw new Cmi5Error(`Unknown interactionType '${interactionType}'`);
+  }
+}
+
+export function formatCorrectResponsesPattern(
+  response: CorrectResponse
+): string {
+  switch (response.interactionType) {
+    case "true-false":
+      return String(response.value);
+    case "choice":
+    case "sequencing":
+      return response.ids.map((id) => _escape(id)).join(ITEM_DELIMITER);
+    case "fill-in":
+    case "long-fill-in":
+      return (
+        _formatParameter("case_matters", response.caseMatters) +
+        _formatParameter("order_matters", response.orderMatters) +
+        response.items
+          .map(
+            (item) => _formatParameter("lang", item.lang) + _escape(item.value)
+          )
+          .join(ITEM_DELIMITER)
+      );
+    case "likert":
+      return _escape(response.id);
+    case "matching":
+      return response.pairs
+        .map(
+          ({ source, target }) =>
+            `${_escape(source)}${PAIR_DELIMITER}${_escape(target)}`
+        )
+        .join(ITEM_DELIMITER);
+    case "performance":
+      return (
+        _formatParameter("order_matters", response.orderMatters) +
+        response.steps.map(_formatPerformanceStep).join(ITEM_DELIMITER)
+      );
+    case "numeric":
+      return _formatNumericCriteria(response.criteria, RANGE_DELIMITER);
+    case "other":
+      return response.value;
+  }
+}
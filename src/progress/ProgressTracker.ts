@@ -0,0 +1,159 @@
+import { AxiosResponse } from "axios";
+import { ProgressTrackingOptions, SendStatementOptions } from "../interfaces";
+import { Cmi5Error } from "../errors";
+
+export interface ProgressSender {
+  (
+    percent: number,
+    options?: SendStatementOptions
+  ): Promise<AxiosResponse<string[]>>;
+}
+
+interface PendingProgress {
+  percent: number;
+  options?: SendStatementOptions;
+}
+
+/**
+ * Reports progress as a whole percent that only ever increases, holding back updates that
+ * arrive too soon or change too little until they are worth sending or are flushed.
+ */
+export class ProgressTracker {
+  private _send: ProgressSender;
+  private _minInterval: number;
+  private _minDelta: number;
+  private _sections: string[] = [];
+  private _completedSections: Set<string> = new Set();
+  private _sentPercent: number | null = null;
+  private _sentAt = 0;
+  private _pending: PendingProgress | null = null;
+  private _timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(send: ProgressSender, options: ProgressTrackingOptions = {}) {
+    this._send = send;
+    this._minInterval = options.minInterval ?? 5000;
+    this._minDelta = options.minDelta ?? 1;
+    this.setSections(options.sections || []);
+  }
+
+  // The latest percent reported, whether or not it has been sent yet
+  public get percent(): number | null {
+    return this._pending ? this._pending.percent : this._sentPercent;
+  }
+
+  public get sentPercent(): number | null {
+    return this._sentPercent;
+  }
+
+  public get hasPending(): boolean {
+    return this._pending !== null;
+  }
+
+  public getSections(): string[] {
+    return this._sections.slice();
+  }
+
+  public getCompletedSections(): string[] {
+    return this._sections.filter((id) => this._completedSections.has(id));
+  }
+
+  public setSections(sectionIds: string[]): void {
+    this._sections = Array.from(new Set(sectionIds));
+  }
+
+  // Resolves to null when the report is suppressed or held back
+  public completeSection(
+    sectionId: string,
+    options?: SendStatementOptions
+  ): Promise<AxiosResponse<string[]> | null> {
+    if (!this._sections.includes(sectionId)) {
+      return Promise.reject(
+        new Cmi5Error(`Unknown progress section '${sectionId}'`)
+      );
+    }
+    this._completedSections.add(sectionId);
+    return this.report(
+      (this._completedSections.size / this._sections.length) * 100,
+      options
+    );
+  }
+
+  // Resolves to null when the report is suppressed or held back
+  public report(
+    percent: number,
+    options?: SendStatementOptions
+  ): Promise<AxiosResponse<string[]> | null> {
+    if (typeof percent !== "number" || !(percent >= 0 && percent <= 100)) {
+      return Promise.reject(
+        new Cmi5Error(
+          `Progress must be a number from 0 to 100, received '${percent}'`
+        )
+      );
+    }
+    const rounded = Math.round(percent);
+    const latest = this.percent;
+    if (latest !== null && rounded <= latest) {
+      return Promise.resolve(null);
+    }
+    this._pending = { percent: rounded, options };
+    if (!this._isWorthSending(rounded)) {
+      return Promise.resolve(null);
+    }
+    const wait = this._sentAt + this._minInterval - Date.now();
+    if (this._sentPercent !== null && wait > 0) {
+      if (!this._timer) {
+        this._timer = setTimeout(() => {
+          this._timer = null;
+          this.flush().catch(() => undefined);
+        }, wait);
+      }
+      return Promise.resolve(null);
+    }
+    return this._sendPending();
+  }
+
+  // Sends a held back report immediately, regardless of interval and delta
+  public async flush(): Promise<void> {
+    if (this._pending) {
+      await this._sendPending();
+    }
+  }
+
+  public stop(): void {
+    this._clearTimer();
+    this._pending = null;
+  }
+
+  // Reaching 100% is always worth sending
+  private _isWorthSending(percent: number): boolean {
+    return (
+      this._sentPercent === null ||
+      percent === 100 ||
+      percent - this._sentPercent >= this._minDelta
+    );
+  }
+
+  private _sendPending(): Promise<AxiosResponse<string[]>> {
+    const { percent, options } = this._pending;
+    const previous = { percent: this._sentPercent, at: this._sentAt };
+    this._pending = null;
+    this._clearTimer();
+    this._sentPercent = percent;
+    this._sentAt = Date.now();
+    return this._send(percent, options).catch((err) => {
+      // Allow the same percent to be sent again unless a later report has been sent since
+      if (this._sentPercent === percent) {
+        this._sentPercent = previous.percent;
+        this._sentAt = previous.at;
+      }
+      throw err;
+    });
+  }
+
+  private _clearTimer(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { QueuedStatement, QueueStorage } from "../interfaces";
+
+const OBJECT_STORE_NAME = "statementQueue";
+
+function _request<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDBQueueStorage implements QueueStorage {
+  private _key: string;
+  private _databaseName: string;
+  private _indexedDB: IDBFactory;
+  private _database: Promise<IDBDatabase> | null = null;
+
+  // Stored under `key` in the shared database, so give each session its own, e.g. `cmi5.sessionKey`
+  constructor(
+    key: string,
+    databaseName: string = "cmi5",
+    indexedDB: IDBFactory = window.indexedDB
+  ) {
+    this._key = key;
+    this._databaseName = databaseName;
+    this._indexedDB = indexedDB;
+  }
+
+  public async load(): Promise<QueuedStatement[]> {
+    const store = await this._objectStore("readonly");
+    const items = await _request<QueuedStatement[] | undefined>(
+      store.get(this._key)
+    );
+    return items || [];
+  }
+
+  public async save(items: QueuedStatement[]): Promise<void> {
+    const store = await this._objectStore("readwrite");
+    await _request(
+      items.length ? store.put(items, this._key) : store.delete(this._key)
+    );
+  }
+
+  private async _objectStore(
+    mode: IDBTransactionMode
+  ): Promise<IDBObjectStore> {
+    if (!this._database) {
+      const request = this._indexedDB.open(this._databaseName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(OBJECT_STORE_NAME);
+      this._database = _request(request);
+    }
+    const database = await this._database;
+    return database
+      .transaction(OBJECT_STORE_NAME, mode)
+      .objectStore(OBJECT_STORE_NAME);
+  }
+}
@@ -0,0 +1,25 @@
+import { QueuedStatement, QueueStorage } from "../interfaces";
+
+export class LocalStorageQueueStorage implements QueueStorage {
+  private _key: string;
+  private _storage: Storage;
+
+  // Use a key per session, e.g. the instance's `sessionKey`, so queues of other AUs and registrations stay apart
+  constructor(key: string, storage: Storage = window.localStorage) {
+    this._key = key;
+    this._storage = storage;
+  }
+
+  public async load(): Promise<QueuedStatement[]> {
+    const json = this._storage.getItem(this._key);
+    return json ? (JSON.parse(json) as QueuedStatement[]) : [];
+  }
+
+  public async save(items: QueuedStatement[]): Promise<void> {
+    if (items.length) {
+      this._storage.setItem(this._key, JSON.stringify(items));
+    } else {
+      this._storage.removeItem(this._key);
+    }
+  }
+}
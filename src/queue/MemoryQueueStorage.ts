@@ -0,0 +1,13 @@
+import { QueuedStatement, QueueStorage } from "../interfaces";
+
+export class MemoryQueueStorage implements QueueStorage {
+  private _items: QueuedStatement[] = [];
+
+  public async load(): Promise<QueuedStatement[]> {
+    return this._items.slice();
+  }
+
+  public async save(items: QueuedStatement[]): Promise<void> {
+    this._items = items.slice();
+  }
+}
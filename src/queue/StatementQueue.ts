@@ -0,0 +1,203 @@
+import { AxiosPromise, AxiosResponse } from "axios";
+import { Statement } from "@xapi/xapi";
+import { v4 as uuidv4 } from "uuid";
+import {
+  QueuedStatement,
+  QueueStorage,
+  StatementQueueOptions,
+  StatementQueueStatus,
+} from "../interfaces";
+import { MemoryQueueStorage } from "./MemoryQueueStorage";
+
+export interface StatementSender {
+  (statement: Statement): AxiosPromise<string[]>;
+}
+
+interface PendingDelivery {
+  resolve: (response: AxiosResponse<string[]>) => void;
+  reject: (err: unknown) => void;
+}
+
+function _responseStatus(err: unknown): number | undefined {
+  return (err as { response?: { status?: number } })?.response?.status;
+}
+
+// A statement with the same id was already stored by the LRS
+function _isDuplicate(err: unknown): boolean {
+  return _responseStatus(err) === 409;
+}
+
+function _isRetryable(err: unknown): boolean {
+  const status = _responseStatus(err);
+  return (
+    status === undefined || status >= 500 || status === 408 || status === 429
+  );
+}
+
+/**
+ * Persists outgoing statements and delivers them to the LRS one at a time, in order,
+ * retrying with exponential backoff while the LRS is unreachable.
+ */
+export class StatementQueue {
+  private _send: StatementSender;
+  private _storage: QueueStorage;
+  private _initialRetryDelay: number;
+  private _maxRetryDelay: number;
+  private _backoffFactor: number;
+  private _items: QueuedStatement[] = [];
+  private _pendingDeliveries: { [statementId: string]: PendingDelivery } = {};
+  private _flushing: Promise<void> | null = null;
+  private _lastError: unknown | null = null;
+  private _stopped = false;
+  // Ends the wait before the next retry early, e.g. when the queue is stopped
+  private _wakeUp: (() => void) | null = null;
+
+  constructor(send: StatementSender, options: StatementQueueOptions = {}) {
+    this._send = send;
+    this._storage = options.storage || new MemoryQueueStorage();
+    this._initialRetryDelay = options.initialRetryDelay ?? 1000;
+    this._maxRetryDelay = options.maxRetryDelay ?? 60000;
+    this._backoffFactor = options.backoffFactor ?? 2;
+  }
+
+  public async restore(items?: QueuedStatement[]): Promise<void> {
+    const restoredItems = items || (await this._storage.load());
+    const queuedIds = this._items.map((item) => item.statement.id);
+    this._items = [
+      ...restoredItems.filter((item) => !queuedIds.includes(item.statement.id)),
+      ...this._items,
+    ];
+    if (items) {
+      await this._persist();
+    }
+  }
+
+  public getPending(): QueuedStatement[] {
+    return this._items.slice();
+  }
+
+  public async enqueue(statement: Statement): AxiosPromise<string[]> {
+    // 9.1 Statement ID - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#statement_id
+    // The timestamp is when the statement happened, not when the LRS finally receives it
+    const queuedStatement: Statement = {
+      ...statement,
+      id: statement.id || uuidv4(),
+      timestamp: statement.timestamp || new Date().toISOString(),
+    };
+    const delivery = new Promise<AxiosResponse<string[]>>((resolve, reject) => {
+      this._pendingDeliveries[queuedStatement.id] = { resolve, reject };
+    });
+    this._items.push({
+      statement: queuedStatement,
+      attempts: 0,
+      enqueuedAt: new Date().toISOString(),
+    });
+    await this._persist();
+    this.flush().catch(() => undefined);
+    return delivery;
+  }
+
+  public flush(): Promise<void> {
+    if (!this._flushing && !this._stopped) {
+      const done = () => {
+        this._flushing = null;
+      };
+      this._flushing = this._drain().then(done, (err) => {
+        done();
+        this._lastError = err;
+        throw err;
+      });
+    }
+    return this._flushing || Promise.resolve();
+  }
+
+  // Stops delivering once the statement being sent, if any, has been settled
+  public async stop(): Promise<void> {
+    this._stopped = true;
+    if (this._wakeUp) {
+      this._wakeUp();
+    }
+    await (this._flushing || Promise.resolve()).catch(() => undefined);
+  }
+
+  // Moves the statements of another queue, and the promises waiting on them, into this one
+  public async takeOver(previous: StatementQueue): Promise<void> {
+    await previous.stop();
+    const items = previous._items;
+    Object.assign(this._pendingDeliveries, previous._pendingDeliveries);
+    previous._items = [];
+    previous._pendingDeliveries = {};
+    await previous._persist();
+    await this.restore(items);
+  }
+
+  public getStatus(): StatementQueueStatus {
+    return {
+      pending: this._items.length,
+      isFlushing: Boolean(this._flushing),
+      lastError: this._lastError,
+    };
+  }
+
+  private async _drain(): Promise<void> {
+    while (this._items.length && !this._stopped) {
+      const item = this._items[0];
+      try {
+        const response = await this._send(item.statement);
+        await this._settle(item, (delivery) => delivery.resolve(response));
+      } catch (err) {
+        if (_isDuplicate(err)) {
+          const response: AxiosResponse<string[]> = {
+            ...(err as { response: AxiosResponse }).response,
+            data: [item.statement.id],
+          };
+          await this._settle(item, (delivery) => delivery.resolve(response));
+        } else if (_isRetryable(err)) {
+          this._lastError = err;
+          item.attempts++;
+          await this._persist();
+          await this._wait(this._retryDelay(item.attempts));
+        } else {
+          this._lastError = err;
+          await this._settle(item, (delivery) => delivery.reject(err));
+        }
+      }
+    }
+  }
+
+  private async _settle(
+    item: QueuedStatement,
+    notify: (delivery: PendingDelivery) => void
+  ): Promise<void> {
+    this._items = this._items.filter((i) => i !== item);
+    await this._persist();
+    const delivery = this._pendingDeliveries[item.statement.id];
+    if (delivery) {
+      delete this._pendingDeliveries[item.statement.id];
+      notify(delivery);
+    }
+  }
+
+  private _wait(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this._wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    }).then(() => {
+      this._wakeUp = null;
+    });
+  }
+
+  private _retryDelay(attempts: number): number {
+    return Math.min(
+      this._initialRetryDelay * Math.pow(this._backoffFactor, attempts - 1),
+      this._maxRetryDelay
+    );
+  }
+
+  private _persist(): Promise<void> {
+    return this._storage.save(this._items);
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./IndexedDBQueueStorage";
+export * from "./LocalStorageQueueStorage";
+export * from "./MemoryQueueStorage";
+export * from "./StatementQueue";
@@ -0,0 +1,53 @@
+import { LaunchParameters } from "../interfaces";
+import { Cmi5Error } from "../errors";
+import AbstractCmi5 from "../AbstractCmi5";
+import { sessionKey } from "./sessionKey";
+
+/**
+ * Holds one instance per AU session so that several AUs, or several learners, can be run side by side.
+ */
+export class Cmi5Registry<T extends AbstractCmi5> {
+  private _create: (launchParameters: LaunchParameters) => T;
+  private _instances: { [sessionKey: string]: T } = {};
+
+  constructor(create: (launchParameters: LaunchParameters) => T) {
+    this._create = create;
+  }
+
+  public create(launchParameters: LaunchParameters): T {
+    const cmi5 = this._create(launchParameters);
+    if (this._instances[cmi5.sessionKey]) {
+      throw new Cmi5Error(
+        `An instance already exists for registration '${launchParameters.registration}' and activityId '${launchParameters.activityId}'`
+      );
+    }
+    this._instances[cmi5.sessionKey] = cmi5;
+    return cmi5;
+  }
+
+  public get(registration: string, activityId: string): T | null {
+    return this._instances[sessionKey(registration, activityId)] || null;
+  }
+
+  public getAll(): T[] {
+    return Object.keys(this._instances).map((key) => this._instances[key]);
+  }
+
+  public dispose(registration: string, activityId: string): boolean {
+    const key = sessionKey(registration, activityId);
+    const cmi5 = this._instances[key];
+    if (!cmi5) return false;
+    delete this._instances[key];
+    cmi5.dispose();
+    return true;
+  }
+
+  public disposeAll(): void {
+    this.getAll().forEach((cmi5) =>
+      this.dispose(
+        cmi5.getLaunchParameters().registration,
+        cmi5.getLaunchParameters().activityId
+      )
+    );
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./Cmi5Registry";
+export * from "./sessionKey";
@@ -0,0 +1,4 @@
+// Registrations are shared by every AU in a course, so sessions are identified by both
+export function sessionKey(registration: string, activityId: string): string {
+  return `${registration}:${activityId}`;
+}
@@ -0,0 +1,146 @@
+import { Result } from "@xapi/xapi";
+import {
+  FillInMatchOptions,
+  InteractionScore,
+  NumericCriteria,
+  NumericExact,
+  NumericRange,
+  Performance,
+  PerformanceCriteria,
+} from "../interfaces";
+
+function _score(raw: number, max: number, success: boolean): InteractionScore {
+  return { success, raw: Math.max(raw, 0), max };
+}
+
+function _countInOrder<T>(answers: T[], correct: T[]): number {
+  return correct.filter((value, i) => answers[i] === value).length;
+}
+
+function _countInAnyOrder<T>(answers: T[], correct: T[]): number {
+  const remaining = answers.slice();
+  return correct.filter((value) => {
+    const i = remaining.indexOf(value);
+    if (i === -1) return false;
+    remaining.splice(i, 1);
+    return true;
+  }).length;
+}
+
+function _isInRange(value: number, criteria: NumericRange): boolean {
+  return (
+    (typeof criteria.min !== "number" || value >= criteria.min) &&
+    (typeof criteria.max !== "number" || value <= criteria.max)
+  );
+}
+
+// For single valued responses such as likert and other
+export function scoreExact<T>(answer: T, correctAnswer: T): InteractionScore {
+  const success = answer === correctAnswer;
+  return _score(success ? 1 : 0, 1, success);
+}
+
+export function scoreTrueFalse(
+  answer: boolean,
+  correctAnswer: boolean
+): InteractionScore {
+  return scoreExact(answer, correctAnswer);
+}
+
+// Each correct choice selected scores a point, each incorrect choice selected loses one
+export function scoreChoice(
+  answerIds: string[],
+  correctAnswerIds: string[]
+): InteractionScore {
+  const answers = Array.from(new Set(answerIds));
+  const correct = Array.from(new Set(correctAnswerIds));
+  const selectedCorrect = answers.filter((id) => correct.includes(id)).length;
+  const selectedIncorrect = answers.length - selectedCorrect;
+  return _score(
+    selectedCorrect - selectedIncorrect,
+    correct.length,
+    selectedIncorrect === 0 && selectedCorrect === correct.length
+  );
+}
+
+export function scoreSequencing(
+  answerIds: string[],
+  correctAnswerIds: string[]
+): InteractionScore {
+  const raw = _countInOrder(answerIds, correctAnswerIds);
+  return _score(
+    raw,
+    correctAnswerIds.length,
+    raw === correctAnswerIds.length &&
+      answerIds.length === correctAnswerIds.length
+  );
+}
+
+export function scoreFillIn(
+  answers: string[],
+  correctAnswers: string[],
+  options: FillInMatchOptions = {}
+): InteractionScore {
+  const normalize = (values: string[]) =>
+    values.map((value) =>
+      options.caseMatters ? value : value.toLocaleLowerCase()
+    );
+  const count = options.orderMatters ?? true ? _countInOrder : _countInAnyOrder;
+  const raw = count(normalize(answers), normalize(correctAnswers));
+  return _score(
+    raw,
+    correctAnswers.length,
+    raw === correctAnswers.length && answers.length === correctAnswers.length
+  );
+}
+
+export function scoreMatching(
+  answers: { [sourceId: string]: string },
+  correctAnswers: { [sourceId: string]: string }
+): InteractionScore {
+  const correctSources = Object.keys(correctAnswers);
+  const raw = correctSources.filter(
+    (source) => answers[source] === correctAnswers[source]
+  ).length;
+  return _score(
+    raw,
+    correctSources.length,
+    raw === correctSources.length &&
+      Object.keys(answers).length === correctSources.length
+  );
+}
+
+export function scoreNumeric(
+  answer: number,
+  correctAnswer: NumericCriteria
+): InteractionScore {
+  const success =
+    "exact" in correctAnswer
+      ? answer === (correctAnswer as NumericExact).exact
+      : _isInRange(answer, correctAnswer as NumericRange);
+  return _score(success ? 1 : 0, 1, success);
+}
+
+// Each step meeting its criteria scores a point
+export function scorePerformance(
+  answers: Performance,
+  correctAnswers: PerformanceCriteria[]
+): InteractionScore {
+  const raw = correctAnswers.filter((criteria) => {
+    const value = answers[criteria.id];
+    if (value === undefined) return false;
+    if ("exact" in criteria && criteria.exact !== undefined) {
+      return String(value) === String(criteria.exact);
+    }
+    return _isInRange(value, criteria as NumericRange);
+  }).length;
+  return _score(raw, correctAnswers.length, raw === correctAnswers.length);
+}
+
+// Share of an answered interaction that was correct, from 0 to 1, or null when it was not scored
+export function resultCredit(result?: Result): number | null {
+  if (result?.score && typeof result.score.scaled === "number") {
+    return Math.max(result.score.scaled, 0);
+  }
+  return typeof result?.success === "boolean" ? Number(result.success) : null;
+}
@@ -0,0 +1,20 @@
+import { PersistedSession, SessionStore } from "../interfaces";
+
+export class MemorySessionStore implements SessionStore {
+  private _sessions: { [sessionKey: string]: PersistedSession } = {};
+
+  public async load(sessionKey: string): Promise<PersistedSession | null> {
+    return this._sessions[sessionKey] || null;
+  }
+
+  public async save(
+    sessionKey: string,
+    session: PersistedSession
+  ): Promise<void> {
+    this._sessions[sessionKey] = session;
+  }
+
+  public async remove(sessionKey: string): Promise<void> {
+    delete this._sessions[sessionKey];
+  }
+}
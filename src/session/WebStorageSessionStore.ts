@@ -0,0 +1,39 @@
+import { PersistedSession, SessionStore } from "../interfaces";
+
+// Best Practice #17 – Persist AU Session State - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+export class WebStorageSessionStore implements SessionStore {
+  private _storage: Storage;
+  private _keyPrefix: string;
+
+  constructor(
+    storage: Storage = window.sessionStorage,
+    keyPrefix: string = "cmi5.session."
+  ) {
+    this._storage = storage;
+    this._keyPrefix = keyPrefix;
+  }
+
+  public async load(sessionKey: string): Promise<PersistedSession | null> {
+    try {
+      const json = this._storage.getItem(this._keyPrefix + sessionKey);
+      return json ? (JSON.parse(json) as PersistedSession) : null;
+    } catch (err) {
+      // Unreadable or corrupt storage leaves no session to resume, so the launch starts a new one
+      return null;
+    }
+  }
+
+  public async save(
+    sessionKey: string,
+    session: PersistedSession
+  ): Promise<void> {
+    this._storage.setItem(
+      this._keyPrefix + sessionKey,
+      JSON.stringify(session)
+    );
+  }
+
+  public async remove(sessionKey: string): Promise<void> {
+    this._storage.removeItem(this._keyPrefix + sessionKey);
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./MemorySessionStore";
+export * from "./WebStorageSessionStore";
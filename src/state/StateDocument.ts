@@ -0,0 +1,127 @@
+import XAPI, { Agent } from "@xapi/xapi";
+import { AxiosResponse } from "axios";
+import { Cmi5ConcurrencyError } from "../errors";
+import { toLrsError } from "../errors/toLrsError";
+import { sha1 } from "./sha1";
+
+export interface StateDocumentParams {
+  agent: Agent;
+  activityId: string;
+  registration: string;
+  stateId: string;
+}
+
+interface PendingSave<T> {
+  value: T;
+  timer: ReturnType<typeof setTimeout>;
+  waiters: { resolve: () => void; reject: (err: unknown) => void }[];
+}
+
+function _responseStatus(err: unknown): number | undefined {
+  return (err as { response?: { status?: number } })?.response?.status;
+}
+
+/**
+ * A JSON document in the xAPI State API, written with If-Match/If-None-Match so that
+ * changes made elsewhere since it was last read are not overwritten.
+ */
+export class StateDocument<T> {
+  private _xapi: XAPI;
+  private _params: StateDocumentParams;
+  // `undefined` until read or written, `null` when the document does not exist
+  private _etag: string | null | undefined = undefined;
+  private _pending: PendingSave<T> | null = null;
+
+  constructor(xapi: XAPI, params: StateDocumentParams) {
+    this._xapi = xapi;
+    this._params = params;
+  }
+
+  public async get(): Promise<T | null> {
+    try {
+      const response = (await this._xapi.getState({
+        ...this._params,
+        useCacheBuster: true,
+      })) as AxiosResponse<T>;
+      this._etag = response.headers?.etag || undefined;
+      return response.data;
+    } catch (err) {
+      if (_responseStatus(err) === 404) {
+        this._etag = null;
+        return null;
+      }
+      throw toLrsError(err, `Unable to get ${this._params.stateId}`);
+    }
+  }
+
+  // A document this session has not read yet, e.g. one left by a previous session, is read
+  // once to replace it, while a document changed since it was read is reported as a conflict
+  public async set(value: T): Promise<void> {
+    const state = JSON.stringify(value);
+    const isUnread = this._etag === undefined;
+    try {
+      await this._write(state);
+    } catch (err) {
+      if (!(isUnread && err instanceof Cmi5ConcurrencyError)) {
+        throw err;
+      }
+      await this.get();
+      await this._write(state);
+    }
+  }
+
+  // Coalesces saves made within `delay` milliseconds of each other into one write of the latest value
+  public save(value: T, delay: number): Promise<void> {
+    const waiters = this._pending ? this._pending.waiters : [];
+    if (this._pending) {
+      clearTimeout(this._pending.timer);
+    }
+    return new Promise((resolve, reject) => {
+      waiters.push({ resolve, reject });
+      this._pending = {
+        value,
+        waiters,
+        timer: setTimeout(() => this.flush().catch(() => undefined), delay),
+      };
+    });
+  }
+
+  private async _write(state: string): Promise<void> {
+    const exists = typeof this._etag === "string";
+    try {
+      const response = await this._xapi.setState({
+        ...this._params,
+        state,
+        contentType: "application/json",
+        etag: exists ? this._etag : "*",
+        matchHeader: exists ? "If-Match" : "If-None-Match",
+      });
+      // Not every LRS returns the new ETag, which xAPI defines as the SHA-1 of the document
+      this._etag = response.headers?.etag || `"${sha1(state)}"`;
+    } catch (err) {
+      const status = _responseStatus(err);
+      if (status === 409 || status === 412) {
+        throw new Cmi5ConcurrencyError(
+          `${this._params.stateId} was changed by another session`,
+          (err as { response?: AxiosResponse }).response,
+          err
+        );
+      }
+      throw toLrsError(err, `Unable to set ${this._params.stateId}`);
+    }
+  }
+
+  public async flush(): Promise<void> {
+    const pending = this._pending;
+    if (!pending) return;
+    this._pending = null;
+    clearTimeout(pending.timer);
+    try {
+      await this.set(pending.value);
+      pending.waiters.forEach((waiter) => waiter.resolve());
+    } catch (err) {
+      pending.waiters.forEach((waiter) => waiter.reject(err));
+      throw err;
+    }
+  }
+}
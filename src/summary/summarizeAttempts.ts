@@ -0,0 +1,128 @@
+import { ResultScore, Statement } from "@xapi/xapi";
+import { AttemptSummary, LaunchContext, LaunchData } from "../interfaces";
+import {
+  Cmi5ContextActivity,
+  Cmi5ContextExtension,
+  Cmi5DefinedVerbs,
+  Cmi5LmsVerbs,
+  Cmi5ResultExtension,
+} from "../constants";
+
+// 10.0 xAPI State Data Model (moveOn) - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
+export function isMoveOnSatisfied(
+  moveOn: LaunchData["moveOn"],
+  completed: boolean,
+  passed: boolean
+): boolean {
+  switch (moveOn) {
+    case "NotApplicable":
+      return true;
+    case "Completed":
+      return completed;
+    case "Passed":
+      return passed;
+    case "CompletedOrPassed":
+      return completed || passed;
+    default:
+      return completed && passed;
+  }
+}
+
+function _isCmi5Defined(statement: Statement): boolean {
+  // 9.6.2.1 cmi5 Category Activity - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9621-cmi5-category-activity
+  const category = statement.context?.contextActivities?.category;
+  return (
+    Array.isArray(category) &&
+    category.some((activity) => activity.id === Cmi5ContextActivity.CMI5.id)
+  );
+}
+
+function _sessionId(statement: Statement): string | undefined {
+  return statement.context?.extensions?.[Cmi5ContextExtension.SESSION_ID];
+}
+
+function _byTimestamp(a: Statement, b: Statement): number {
+  return Date.parse(a.timestamp) - Date.parse(b.timestamp);
+}
+
+function _isBetterScore(score: ResultScore, best: ResultScore | null): boolean {
+  if (!best) return true;
+  if (typeof score.scaled === "number" && typeof best.scaled === "number") {
+    return score.scaled > best.scaled;
+  }
+  return (score.raw ?? -Infinity) > (best.raw ?? -Infinity);
+}
+
+/**
+ * Summarises the statements stored for the AU in this registration, e.g. as returned by the LRS on launch.
+ */
+export function summarizeAttempts(
+  ctx: LaunchContext,
+  statements: Statement[]
+): AttemptSummary {
+  const auStatements = statements
+    .filter(
+      (statement) =>
+        (statement.object as { id?: string })?.id ===
+        ctx.launchParameters.activityId
+    )
+    .sort(_byTimestamp);
+  const has = (verbId: string, definedOnly = true) =>
+    auStatements.filter(
+      (statement) =>
+        statement.verb.id === verbId &&
+        (!definedOnly || _isCmi5Defined(statement))
+    );
+
+  const completed = has(Cmi5DefinedVerbs.COMPLETED.id).length > 0;
+  const passedStatements = has(Cmi5DefinedVerbs.PASSED.id);
+  const failedStatements = has(Cmi5DefinedVerbs.FAILED.id);
+  const waived = has(Cmi5LmsVerbs.WAIVED.id, false).length > 0;
+  const passed = passedStatements.length > 0;
+  const bestScore = [...passedStatements, ...failedStatements].reduce(
+    (best: ResultScore | null, statement) =>
+      statement.result?.score && _isBetterScore(statement.result.score, best)
+        ? statement.result.score
+        : best,
+    null
+  );
+
+  // Each session starts with INITIALIZED, identified by the session id the LMS adds to the context template
+  const currentSessionId =
+    ctx.launchData?.contextTemplate?.extensions?.[
+      Cmi5ContextExtension.SESSION_ID
+    ];
+  const priorSessionIds = has(Cmi5DefinedVerbs.INITIALIZED.id)
+    .map((statement) => _sessionId(statement) || statement.id)
+    .filter(
+      (sessionId, i, sessionIds) =>
+        sessionId !== currentSessionId && sessionIds.indexOf(sessionId) === i
+    );
+  const lastSessionId = priorSessionIds[priorSessionIds.length - 1];
+  const lastSessionProgress = auStatements
+    .filter(
+      (statement) =>
+        lastSessionId !== undefined &&
+        _sessionId(statement) === lastSessionId &&
+        typeof statement.result?.extensions?.[Cmi5ResultExtension.PROGRESS] ===
+          "number"
+    )
+    .map(
+      (statement) => statement.result.extensions[Cmi5ResultExtension.PROGRESS]
+    )
+    .pop();
+
+  return {
+    completed,
+    passed,
+    failed: failedStatements.length > 0,
+    bestScore,
+    waived,
+    satisfied:
+      waived ||
+      has(Cmi5LmsVerbs.SATISFIED.id, false).length > 0 ||
+      isMoveOnSatisfied(ctx.launchData.moveOn, completed, passed),
+    priorSessions: priorSessionIds.length,
+    lastSessionProgress: lastSessionProgress ?? null,
+  };
+}
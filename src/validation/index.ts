@@ -0,0 +1,2 @@
+export * from "./validateCmi5Statement";
+export * from "./validateLaunchData";
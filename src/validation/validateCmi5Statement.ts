@@ -0,0 +1,198 @@
+import { Activity, Agent, ContextActivity, Statement } from "@xapi/xapi";
+import {
+  Cmi5ValidationIssue,
+  Cmi5ValidationResult,
+  LaunchContext,
+} from "../interfaces";
+import {
+  Cmi5ContextActivity,
+  Cmi5ContextExtension,
+  Cmi5DefinedVerbs,
+  Cmi5LmsVerbs,
+  Cmi5ResultExtension,
+  Cmi5ValidationRule,
+} from "../constants";
+
+const OBJECTIVE_ACTIVITY_TYPE = "http://adlnet.gov/expapi/activities/objective";
+
+const ISO8601_DURATION =
+  /^P(?!$)(\d+(\.\d+)?Y)?(\d+(\.\d+)?M)?(\d+(\.\d+)?W)?(\d+(\.\d+)?D)?(T(?=\d)(\d+(\.\d+)?H)?(\d+(\.\d+)?M)?(\d+(\.\d+)?S)?)?$/;
+
+function _definedVerbName(statement: Statement): string | undefined {
+  return Object.keys(Cmi5DefinedVerbs).find(
+    (name) => Cmi5DefinedVerbs[name].id === statement.verb?.id
+  );
+}
+
+function _hasActivity(
+  activities: ContextActivity | ContextActivity[] | undefined,
+  activity: ContextActivity
+): boolean {
+  return []
+    .concat(activities || [])
+    .some((a: ContextActivity) => a.id === activity.id);
+}
+
+function _isSameAgent(a: Agent, b: Agent): boolean {
+  if (!a || !b) return false;
+  if (a.mbox || b.mbox) return a.mbox === b.mbox;
+  if (a.mbox_sha1sum || b.mbox_sha1sum) {
+    return a.mbox_sha1sum === b.mbox_sha1sum;
+  }
+  if (a.openid || b.openid) return a.openid === b.openid;
+  return (
+    Boolean(a.account && b.account) &&
+    a.account.homePage === b.account.homePage &&
+    a.account.name === b.account.name
+  );
+}
+
+/**
+ * Checks a statement against the cmi5 rules for statements sent by an AU, without sending it.
+ */
+export function validateCmi5Statement(
+  ctx: LaunchContext,
+  statement: Statement
+): Cmi5ValidationResult {
+  const issues: Cmi5ValidationIssue[] = [];
+  const report = (rule: string, path: string, message: string) =>
+    issues.push({ rule, path, message });
+  const { launchParameters, launchData } = ctx;
+  const category = statement.context?.contextActivities?.category;
+  const definedVerbName = _definedVerbName(statement);
+  // 9.6.2.1 cmi5 Category Activity - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9621-cmi5-category-activity
+  const hasCmi5Category = _hasActivity(category, Cmi5ContextActivity.CMI5);
+  // Only statements with the cmi5 category are cmi5 defined, the same verbs about
+  // other objects, e.g. objective results, are cmi5 allowed
+  const verbName = hasCmi5Category ? definedVerbName : undefined;
+  const object = statement.object as Activity;
+  const isAboutAu = object?.id === launchParameters.activityId;
+
+  // 9.2 Actor - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#92-actor
+  if (!_isSameAgent(statement.actor as Agent, launchParameters.actor)) {
+    report(
+      Cmi5ValidationRule.ACTOR,
+      "actor",
+      "Actor does not match the launch actor"
+    );
+  }
+  // 9.6.1 Registration - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#961-registration
+  if (statement.context?.registration !== launchParameters.registration) {
+    report(
+      Cmi5ValidationRule.REGISTRATION,
+      "context.registration",
+      "Registration does not match the launch registration"
+    );
+  }
+  const lmsVerbName = Object.keys(Cmi5LmsVerbs).find(
+    (name) => Cmi5LmsVerbs[name].id === statement.verb?.id
+  );
+  if (lmsVerbName) {
+    report(
+      Cmi5ValidationRule.DISALLOWED_VERB,
+      "verb.id",
+      `${lmsVerbName} statements may only be sent by the LMS`
+    );
+  }
+
+  if (definedVerbName && !hasCmi5Category && isAboutAu) {
+    report(
+      Cmi5ValidationRule.CMI5_CATEGORY,
+      "context.contextActivities.category",
+      `${definedVerbName} is missing the cmi5 category`
+    );
+  } else if (!definedVerbName && hasCmi5Category) {
+    report(
+      Cmi5ValidationRule.CMI5_CATEGORY,
+      "context.contextActivities.category",
+      "The cmi5 category is only allowed on cmi5 defined statements"
+    );
+  }
+  // Best Practice #1 - Use of Objectives - https://aicc.github.io/CMI-5_Spec_Current/best_practices/
+  [].concat(category || []).forEach((activity: Activity, i) => {
+    if (activity.definition?.type === OBJECTIVE_ACTIVITY_TYPE) {
+      report(
+        Cmi5ValidationRule.OBJECTIVE,
+        `context.contextActivities.category.${i}`,
+        "Objectives belong in context.contextActivities.parent, not category"
+      );
+    }
+  });
+
+  const progress = statement.result?.extensions?.[Cmi5ResultExtension.PROGRESS];
+  if (
+    progress !== undefined &&
+    !(Number.isInteger(progress) && progress >= 0 && progress <= 100)
+  ) {
+    report(
+      Cmi5ValidationRule.PROGRESS,
+      `result.extensions.${Cmi5ResultExtension.PROGRESS}`,
+      "Progress must be an integer from 0 to 100"
+    );
+  }
+
+  if (verbName) {
+    // 9.4 Object - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#94-object
+    if (!isAboutAu || (object.objectType && object.objectType !== "Activity")) {
+      report(
+        Cmi5ValidationRule.OBJECT,
+        "object.id",
+        `${verbName} object must be the AU activity`
+      );
+    }
+  }
+  if (verbName && verbName !== "INITIALIZED") {
+    // 9.5.4.1 Duration - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9541-duration
+    const duration = statement.result?.duration;
+    if (!duration || !ISO8601_DURATION.test(duration)) {
+      report(
+        Cmi5ValidationRule.DURATION,
+        "result.duration",
+        `${verbName} requires an ISO 8601 duration`
+      );
+    }
+  }
+  if (verbName && !["INITIALIZED", "TERMINATED"].includes(verbName)) {
+    // 9.6.2.2 moveOn Category Activity - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9622-moveon-category-activity
+    if (!_hasActivity(category, Cmi5ContextActivity.MOVE_ON)) {
+      report(
+        Cmi5ValidationRule.MOVE_ON_CATEGORY,
+        "context.contextActivities.category",
+        `${verbName} is missing the moveOn category`
+      );
+    }
+  }
+  if (verbName === "COMPLETED" && statement.result?.completion !== true) {
+    // 9.5.3 Completion - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#953-completion
+    report(
+      Cmi5ValidationRule.RESULT,
+      "result.completion",
+      "COMPLETED requires result.completion to be true"
+    );
+  }
+  if (verbName === "PASSED" || verbName === "FAILED") {
+    // 9.5.2 Success - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#952-success
+    if (statement.result?.success !== (verbName === "PASSED")) {
+      report(
+        Cmi5ValidationRule.RESULT,
+        "result.success",
+        `${verbName} requires result.success to be ${verbName === "PASSED"}`
+      );
+    }
+    // 9.6.3.2 masteryScore - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#9632-masteryscore
+    const masteryScore =
+      statement.context?.extensions?.[Cmi5ContextExtension.MASTERY_SCORE];
+    if (
+      typeof launchData.masteryScore === "number" &&
+      masteryScore !== launchData.masteryScore
+    ) {
+      report(
+        Cmi5ValidationRule.MASTERY_SCORE,
+        `context.extensions.${Cmi5ContextExtension.MASTERY_SCORE}`,
+        `${verbName} requires the masteryScore extension from the launch data`
+      );
+    }
+  }
+
+  return { valid: issues.length === 0, issues };
+}
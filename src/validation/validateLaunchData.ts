@@ -0,0 +1,178 @@
+import {
+  Cmi5ValidationIssue,
+  LaunchData,
+  LaunchDataRule,
+  LaunchDataValidationResult,
+} from "../interfaces";
+import { Cmi5ContextExtension } from "../constants";
+
+const LAUNCH_MODES: LaunchData["launchMode"][] = ["Normal", "Browse", "Review"];
+
+const MOVE_ON_VALUES: LaunchData["moveOn"][] = [
+  "Passed",
+  "Completed",
+  "CompletedAndPassed",
+  "CompletedOrPassed",
+  "NotApplicable",
+];
+
+const LAUNCH_METHODS: LaunchData["launchMethod"][] = ["OwnWindow", "AnyWindow"];
+
+function _isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Accepts a vocabulary value in the wrong case, e.g. "normal", as the LMS clearly meant the defined value
+function _enumRule<T extends string>(
+  name: keyof LaunchData,
+  values: T[],
+  required: boolean
+): LaunchDataRule {
+  return {
+    name,
+    apply(launchData, report) {
+      const value = launchData[name];
+      if (value === undefined || value === null) {
+        if (required) report.error(name, `${name} is required`);
+        return;
+      }
+      if (values.includes(value as T)) return;
+      const match =
+        typeof value === "string" &&
+        values.find((v) => v.toLowerCase() === value.trim().toLowerCase());
+      if (match) {
+        launchData[name] = match;
+        report.warning(name, `Normalized ${name} '${value}' to '${match}'`);
+      } else {
+        report.error(
+          name,
+          `${name} must be one of ${values.join(", ")}, found ${JSON.stringify(value)}`
+        );
+      }
+    },
+  };
+}
+
+function _optionalStringRule(name: keyof LaunchData): LaunchDataRule {
+  return {
+    name,
+    apply(launchData, report) {
+      const value = launchData[name];
+      if (value !== undefined && value !== null && typeof value !== "string") {
+        report.warning(name, `${name} should be a string, ignoring it`);
+        delete launchData[name];
+      }
+    },
+  };
+}
+
+// 10.0 xAPI State Data Model - https://github.com/AICC/CMI-5_Spec_Current/blob/quartz/cmi5_spec.md#100-xapi-state-data-model
+export const LAUNCH_DATA_RULES: LaunchDataRule[] = [
+  {
+    name: "contextTemplate",
+    apply(launchData, report) {
+      const contextTemplate = launchData.contextTemplate;
+      if (!_isObject(contextTemplate)) {
+        report.error(
+          "contextTemplate",
+          "contextTemplate is required and must be an object"
+        );
+        return;
+      }
+      const extensions = contextTemplate.extensions;
+      if (
+        !_isObject(extensions) ||
+        !extensions[Cmi5ContextExtension.SESSION_ID]
+      ) {
+        report.warning(
+          "contextTemplate.extensions",
+          "contextTemplate is missing the sessionid extension"
+        );
+      }
+    },
+  },
+  _enumRule("launchMode", LAUNCH_MODES, true),
+  _enumRule("moveOn", MOVE_ON_VALUES, true),
+  _enumRule("launchMethod", LAUNCH_METHODS, false),
+  {
+    name: "masteryScore",
+    apply(launchData, report) {
+      let masteryScore = launchData.masteryScore;
+      if (masteryScore === undefined) return;
+      if (typeof masteryScore === "string" && masteryScore.trim() !== "") {
+        const parsed = Number(masteryScore);
+        if (!isNaN(parsed)) {
+          report.warning(
+            "masteryScore",
+            `Normalized masteryScore '${masteryScore}' to ${parsed}`
+          );
+          launchData.masteryScore = masteryScore = parsed;
+        }
+      }
+      // Left in place, a null or non-numeric masteryScore would read as a mastery score of 0
+      if (typeof masteryScore !== "number" || isNaN(masteryScore)) {
+        report.warning(
+          "masteryScore",
+          `masteryScore should be a decimal from 0 to 1, ignoring ${JSON.stringify(masteryScore)}`
+        );
+        delete launchData.masteryScore;
+        return;
+      }
+      if (!(masteryScore >= 0 && masteryScore <= 1)) {
+        report.error(
+          "masteryScore",
+          `masteryScore must be a decimal from 0 to 1, found ${JSON.stringify(launchData.masteryScore)}`
+        );
+      }
+    },
+  },
+  _optionalStringRule("launchParameters"),
+  _optionalStringRule("returnURL"),
+  {
+    name: "entitlementKey",
+    apply(launchData, report) {
+      const entitlementKey = launchData.entitlementKey;
+      if (entitlementKey !== undefined && !_isObject(entitlementKey)) {
+        report.warning(
+          "entitlementKey",
+          "entitlementKey should be an object, ignoring it"
+        );
+        delete launchData.entitlementKey;
+      }
+    },
+  },
+];
+
+/**
+ * Checks LMS.LaunchData against the cmi5 state data model, returning a normalized copy
+ * along with errors that make it unusable and warnings about anything that was corrected or ignored.
+ */
+export function validateLaunchData(
+  data: unknown,
+  rules: LaunchDataRule[] = LAUNCH_DATA_RULES
+): LaunchDataValidationResult {
+  const errors: Cmi5ValidationIssue[] = [];
+  const warnings: Cmi5ValidationIssue[] = [];
+  if (!_isObject(data)) {
+    errors.push({
+      rule: "launchData",
+      path: "",
+      message: "LMS.LaunchData must be a JSON object",
+    });
+    return { valid: false, launchData: data as LaunchData, errors, warnings };
+  }
+  const launchData = { ...data };
+  rules.forEach((rule) =>
+    rule.apply(launchData, {
+      error: (path, message) => errors.push({ rule: rule.name, path, message }),
+      warning: (path, message) =>
+        warnings.push({ rule: rule.name, path, message }),
+    })
+  );
+  return {
+    valid: errors.length === 0,
+    launchData: launchData as unknown as LaunchData,
+    errors,
+    warnings,
+  };
+}
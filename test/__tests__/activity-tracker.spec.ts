@@ -0,0 +1,132 @@
+import { ActivityTracker } from "../../src/activity";
+
+let visibilityState: DocumentVisibilityState = "visible";
+
+function setVisibility(state: DocumentVisibilityState): void {
+  visibilityState = state;
+  document.dispatchEvent(new Event("visibilitychange"));
+}
+
+describe("ActivityTracker", () => {
+  let tracker: ActivityTracker;
+
+  beforeAll(() => {
+    Object.defineProperty(document, "visibilityState", {
+      configurable: true,
+      get: () => visibilityState,
+    });
+  });
+
+  afterAll(() => {
+    delete (document as any).visibilityState;
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+    visibilityState = "visible";
+  });
+
+  afterEach(() => {
+    tracker?.stop();
+    jest.useRealTimers();
+  });
+
+  it("counts time since the given start as active", () => {
+    tracker = new ActivityTracker({ idleTimeout: 0 });
+    tracker.start(new Date(Date.now() - 5000));
+    jest.advanceTimersByTime(10000);
+    expect(tracker.getActiveTime()).toEqual(15000);
+  });
+
+  it("adds previous active time to the time since the given start", () => {
+    tracker = new ActivityTracker({ idleTimeout: 0 });
+    tracker.start(new Date(), 20000);
+    jest.advanceTimersByTime(10000);
+    expect(tracker.getActiveTime()).toEqual(30000);
+  });
+
+  it("excludes time while the page is hidden", () => {
+    const onChange = jest.fn();
+    tracker = new ActivityTracker({ idleTimeout: 0 }, onChange);
+    tracker.start();
+    jest.advanceTimersByTime(10000);
+    setVisibility("hidden");
+    jest.advanceTimersByTime(60000);
+    setVisibility("visible");
+    jest.advanceTimersByTime(5000);
+    expect(tracker.getActiveTime()).toEqual(15000);
+    expect(onChange.mock.calls).toEqual([
+      [true, "hidden"],
+      [false, "hidden"],
+    ]);
+  });
+
+  it("ignores visibility when trackVisibility is false", () => {
+    tracker = new ActivityTracker({ trackVisibility: false, idleTimeout: 0 });
+    tracker.start();
+    setVisibility("hidden");
+    jest.advanceTimersByTime(10000);
+    expect(tracker.isPaused).toBe(false);
+    expect(tracker.getActiveTime()).toEqual(10000);
+  });
+
+  it("pauses at the last user input once idle and resumes on input", () => {
+    const onChange = jest.fn();
+    tracker = new ActivityTracker({ idleTimeout: 60000 }, onChange);
+    tracker.start();
+    jest.advanceTimersByTime(30000);
+    document.dispatchEvent(new Event("keydown"));
+    jest.advanceTimersByTime(59999);
+    expect(tracker.isPaused).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(tracker.pauseReason).toEqual("idle");
+    jest.advanceTimersByTime(600000);
+    document.dispatchEvent(new Event("mousemove"));
+    jest.advanceTimersByTime(1000);
+    expect(tracker.getActiveTime()).toEqual(31000);
+    expect(onChange.mock.calls).toEqual([
+      [true, "idle"],
+      [false, "idle"],
+    ]);
+  });
+
+  it("stays paused after a manual pause until resumed manually", () => {
+    tracker = new ActivityTracker({ idleTimeout: 60000 });
+    tracker.start();
+    jest.advanceTimersByTime(1000);
+    tracker.pause();
+    setVisibility("hidden");
+    setVisibility("visible");
+    document.dispatchEvent(new Event("keydown"));
+    jest.advanceTimersByTime(10000);
+    expect(tracker.pauseReason).toEqual("manual");
+    tracker.resume();
+    jest.advanceTimersByTime(2000);
+    expect(tracker.isPaused).toBe(false);
+    expect(tracker.getActiveTime()).toEqual(3000);
+  });
+
+  it("remains paused as hidden when resumed while the page is hidden", () => {
+    tracker = new ActivityTracker({ idleTimeout: 0 });
+    tracker.start();
+    tracker.pause();
+    visibilityState = "hidden";
+    tracker.resume();
+    expect(tracker.pauseReason).toEqual("hidden");
+    setVisibility("visible");
+    expect(tracker.isPaused).toBe(false);
+  });
+
+  it("stops counting and listening once stopped", () => {
+    const onChange = jest.fn();
+    tracker = new ActivityTracker({ idleTimeout: 1000 }, onChange);
+    tracker.start();
+    jest.advanceTimersByTime(500);
+    tracker.stop();
+    jest.advanceTimersByTime(5000);
+    setVisibility("hidden");
+    expect(tracker.getActiveTime()).toEqual(500);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
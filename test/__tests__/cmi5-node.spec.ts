@@ -0,0 +1,11 @@
+/**
+ * @jest-environment node
+ */
+import Cmi5 from "../../src/Cmi5";
+
+describe("Cmi5 without a window", () => {
+  it("reports cmi5 as unavailable", () => {
+    expect(typeof window).toBe("undefined");
+    expect(Cmi5.isCmiAvailable).toBe(false);
+  });
+});
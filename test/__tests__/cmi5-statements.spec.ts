@@ -7,9 +7,24 @@ import { randomUUID } from "node:crypto";
 import { Cmi5DefinedVerbs } from "../../src/constants";
 import {
   Cmi5CompleteStatement,
+  Cmi5InteractionChoiceStatement,
+  Cmi5InteractionFillInStatement,
+  Cmi5InteractionMatchingStatement,
+  Cmi5InteractionNumericStatement,
+  Cmi5InteractionPerformanceStatement,
+  Cmi5InteractionSequencingStatement,
+  Cmi5InteractionTrueFalseStatement,
+  Cmi5MoveOnStatements,
   Cmi5PassStatement,
 } from "../../src/Cmi5Statements";
-import { ResultScore } from "@xapi/xapi";
+import {
+  Activity,
+  InteractionActivityDefinition,
+  ObjectiveActivity,
+  ResultScore,
+  Statement,
+} from "@xapi/xapi";
+import { Cmi5LaunchModeError, Cmi5MasteryScoreError } from "../../src/errors";
 
 describe("Cmi5 Statements", () => {
   const DEFAULT_LAUNCH_PARAMETERS: LaunchParameters = {
@@ -61,6 +76,14 @@ describe("Cmi5 Statements", () => {
               message: "Can only send COMPLETED when launchMode is 'Normal'",
             })
           );
+          expect(() => Cmi5CompleteStatement(ctx)).toThrow(
+            expect.objectContaining({
+              name: "Cmi5LaunchModeError",
+              verb: "COMPLETED",
+              launchMode,
+            })
+          );
+          expect(() => Cmi5CompleteStatement(ctx)).toThrow(Cmi5LaunchModeError);
         });
       }
     );
@@ -159,6 +182,15 @@ describe("Cmi5 Statements", () => {
                 message: "Learner has not met Mastery Score",
               })
             );
+            expect(() => Cmi5PassStatement(ctx, resultScore)).toThrow(
+              expect.objectContaining({
+                score: resultScore,
+                masteryScore: ctx.launchData.masteryScore,
+              })
+            );
+            expect(() => Cmi5PassStatement(ctx, resultScore)).toThrow(
+              Cmi5MasteryScoreError
+            );
           });
         });
 
@@ -194,4 +226,237 @@ describe("Cmi5 Statements", () => {
       }
     );
   });
+
+  describe("Cmi5MoveOnStatements", () => {
+    const { PASSED, FAILED, COMPLETED, TERMINATED } = Cmi5DefinedVerbs;
+
+    [
+      { moveOn: "Completed", score: 0.9, expected: [COMPLETED] },
+      { moveOn: "Passed", score: 0.9, expected: [PASSED] },
+      { moveOn: "Passed", score: 0.1, expected: [FAILED] },
+      {
+        moveOn: "CompletedAndPassed",
+        score: 0.9,
+        expected: [PASSED, COMPLETED],
+      },
+      {
+        moveOn: "CompletedAndPassed",
+        score: 0.1,
+        expected: [FAILED, COMPLETED],
+      },
+      { moveOn: "CompletedOrPassed", score: 0.9, expected: [PASSED] },
+      {
+        moveOn: "CompletedOrPassed",
+        score: 0.1,
+        expected: [FAILED, COMPLETED],
+      },
+      { moveOn: "NotApplicable", score: 0.9, expected: [] },
+    ].forEach((ex) => {
+      it(`builds ${ex.expected.map((v) => v.display["en-US"]).join(", ") || "no"} statements for moveOn '${ex.moveOn}' with score ${ex.score}`, () => {
+        const ctx: LaunchContext = {
+          ...DEFAULT_LAUNCH_CONTEXT,
+          launchData: {
+            ...DEFAULT_LAUNCH_DATA,
+            masteryScore: 0.5,
+            moveOn: ex.moveOn as LaunchData["moveOn"],
+          },
+        };
+        const statements = Cmi5MoveOnStatements(ctx, { score: ex.score });
+        expect(statements.map((s) => s.verb)).toEqual([
+          ...ex.expected,
+          TERMINATED,
+        ]);
+      });
+    });
+
+    it("uses an explicit success when there is no masteryScore", () => {
+      const statements = Cmi5MoveOnStatements(DEFAULT_LAUNCH_CONTEXT, {
+        success: false,
+        disableSendTerminated: true,
+      });
+      expect(statements.map((s) => s.verb)).toEqual([FAILED, COMPLETED]);
+    });
+
+    it("ignores an explicit success when there is a masteryScore", () => {
+      const ctx: LaunchContext = {
+        ...DEFAULT_LAUNCH_CONTEXT,
+        launchData: { ...DEFAULT_LAUNCH_DATA, masteryScore: 0.5 },
+      };
+      const statements = Cmi5MoveOnStatements(ctx, {
+        score: 0.4,
+        success: true,
+        disableSendTerminated: true,
+      });
+      expect(statements.map((s) => s.verb)).toEqual([FAILED, COMPLETED]);
+    });
+  });
+
+  describe("interaction options", () => {
+    const period = {
+      start: new Date("2024-01-01T00:00:00.000Z"),
+      end: new Date("2024-01-01T00:00:42.000Z"),
+    };
+
+    function withoutIds(statement: Statement): Partial<Statement> {
+      return { ...statement, id: undefined, timestamp: undefined };
+    }
+
+    it("builds the same statement from options as from positional arguments", () => {
+      const positional = Cmi5InteractionMatchingStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        "test-1",
+        "question-1",
+        { a: "1" },
+        { a: "2" },
+        undefined,
+        undefined,
+        { "en-US": "Match" },
+        undefined,
+        false,
+        period
+      );
+      const fromOptions = Cmi5InteractionMatchingStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        {
+          testId: "test-1",
+          questionId: "question-1",
+          answers: { a: "1" },
+          correctAnswers: { a: "2" },
+          name: { "en-US": "Match" },
+          success: false,
+          duration: period,
+        }
+      );
+      expect(withoutIds(fromOptions)).toEqual(withoutIds(positional));
+      expect(fromOptions.result).toEqual({
+        response: "a[.]1",
+        success: false,
+        duration: "PT42S",
+      });
+    });
+
+    it("builds interaction definitions from options", () => {
+      const statement = Cmi5InteractionNumericStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        {
+          testId: "test-1",
+          questionId: "question-2",
+          answer: 4,
+          correctAnswer: { min: 3, max: 5 },
+        }
+      );
+      expect(statement.object).toEqual({
+        objectType: "Activity",
+        id: `${DEFAULT_LAUNCH_PARAMETERS.activityId}/test/test-1/question/question-2`,
+        definition: {
+          type: "http://adlnet.gov/expapi/activities/cmi.interaction",
+          interactionType: "numeric",
+          correctResponsesPattern: ["3[:]5"],
+        },
+      });
+    });
+
+    it("places the objective in context from options", () => {
+      const objective: ObjectiveActivity = {
+        objectType: "Activity",
+        id: "http://example.com/objective",
+        definition: { type: "http://adlnet.gov/expapi/activities/objective" },
+      };
+      const statement = Cmi5InteractionTrueFalseStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        { testId: "t", questionId: "q", answer: true, objective }
+      );
+      expect(statement.context.contextActivities.parent).toEqual([objective]);
+    });
+  });
+
+  describe("interaction scoring", () => {
+    it("fills success from the correct answer when omitted", () => {
+      const statement = Cmi5InteractionChoiceStatement(DEFAULT_LAUNCH_CONTEXT, {
+        testId: "t",
+        questionId: "q",
+        answerIds: ["b", "a"],
+        correctAnswerIds: ["a", "b"],
+      });
+      expect(statement.result).toEqual({ response: "b[,]a", success: true });
+    });
+
+    it("keeps an explicit success", () => {
+      const statement = Cmi5InteractionNumericStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        "t",
+        "q",
+        10,
+        { min: 1, max: 5 },
+        undefined,
+        undefined,
+        true
+      );
+      expect(statement.result.success).toBe(true);
+    });
+
+    it("leaves success out without a correct answer", () => {
+      const statement = Cmi5InteractionTrueFalseStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        { testId: "t", questionId: "q", answer: true }
+      );
+      expect(statement.result).toEqual({ response: "true" });
+    });
+
+    it("scores partial credit when requested", () => {
+      const statement = Cmi5InteractionSequencingStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        {
+          testId: "t",
+          questionId: "q",
+          answerIds: ["a", "c", "b", "d"],
+          correctAnswerIds: ["a", "b", "c", "d"],
+          partialCredit: true,
+        }
+      );
+      expect(statement.result).toEqual({
+        response: "a[,]c[,]b[,]d",
+        success: false,
+        score: { scaled: 0.5, raw: 2, min: 0, max: 4 },
+      });
+    });
+
+    it("keys performance patterns by step id", () => {
+      const statement = Cmi5InteractionPerformanceStatement(
+        DEFAULT_LAUNCH_CONTEXT,
+        {
+          testId: "t",
+          questionId: "q",
+          answers: { pump: 3, seal: 1 },
+          correctAnswers: [
+            { id: "pump", min: 1, max: 5 },
+            { id: "seal", exact: 1 },
+          ],
+        }
+      );
+      const definition = (statement.object as Activity)
+        .definition as InteractionActivityDefinition;
+      expect(definition.correctResponsesPattern).toEqual([
+        "pump[.]1[:]5[,]seal[.]1",
+      ]);
+      expect(statement.result.success).toBe(true);
+    });
+
+    it("adds case_matters and order_matters to fill-in patterns", () => {
+      const statement = Cmi5InteractionFillInStatement(DEFAULT_LAUNCH_CONTEXT, {
+        testId: "t",
+        questionId: "q",
+        answers: ["Rome", "Paris"],
+        correctAnswers: ["Paris", "Rome"],
+        caseMatters: true,
+        orderMatters: false,
+      });
+      const definition = (statement.object as Activity)
+        .definition as InteractionActivityDefinition;
+      expect(definition.correctResponsesPattern).toEqual([
+        "{case_matters=true}{order_matters=false}Paris[,]Rome",
+      ]);
+      expect(statement.result.success).toBe(true);
+    });
+  });
 });
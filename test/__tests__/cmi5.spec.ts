@@ -1,7 +1,31 @@
-import { ObjectiveActivity, Statement, Verb } from "@xapi/xapi";
+import XAPI, { ObjectiveActivity, Statement, Verb } from "@xapi/xapi";
 import MockDate from "mockdate";
 import Cmi5 from "../../src/Cmi5";
-import { Cmi5DefinedVerbs } from "../../src/constants";
+import * as Cmi5Module from "../../src/Cmi5";
+import {
+  Cmi5DefinedVerbs,
+  Cmi5FetchErrorCode,
+  Cmi5ResultExtension,
+  Cmi5StateId,
+  Cmi5ValidationRule,
+} from "../../src/constants";
+import {
+  Cmi5ConcurrencyError,
+  Cmi5Error,
+  Cmi5FetchError,
+  Cmi5LaunchModeError,
+  Cmi5LaunchParameterError,
+  Cmi5LrsError,
+  Cmi5SessionStateError,
+  Cmi5ValidationError,
+} from "../../src/errors";
+import {
+  Cmi5CompleteStatement,
+  Cmi5PassStatement,
+  Cmi5ProgressStatement,
+} from "../../src/Cmi5Statements";
+import { sessionKey } from "../../src/registry";
+import { MemorySessionStore } from "../../src/session";
 import { MockCmi5Helper, DEFAULT_LAUNCH_PARAMETERS, rmProp } from "../helpers";
 import { AxiosHeaders } from "axios";
 
@@ -97,6 +121,27 @@ describe("Cmi5", () => {
     });
   });
 
+  describe("constructor with missing launch parameters", () => {
+    ["fetch", "endpoint", "actor", "activityId", "registration"].forEach(
+      (parameter) => {
+        it(`throws a Cmi5LaunchParameterError when \`${parameter}\` is missing`, async () => {
+          let exception: Cmi5LaunchParameterError;
+          try {
+            new Cmi5(rmProp(parameter, DEFAULT_LAUNCH_PARAMETERS));
+          } catch (err) {
+            exception = err;
+          }
+          expect(exception).toBeInstanceOf(Cmi5LaunchParameterError);
+          expect(exception).toBeInstanceOf(Cmi5Error);
+          expect(exception.parameter).toEqual(parameter);
+          expect(exception.message).toEqual(
+            `Unable to construct, no \`${parameter}\` parameter found in URL.`
+          );
+        });
+      }
+    );
+  });
+
   describe("isCmiAvailable", () => {
     it("returns false when any required cmi query params are missing from window.location", async () => {
       expect(Cmi5.isCmiAvailable).toBe(false);
@@ -107,6 +152,45 @@ describe("Cmi5", () => {
     });
   });
 
+  describe("exports", () => {
+    it("exports the constants alongside the Cmi5 class", () => {
+      expect(Cmi5Module.default).toBe(Cmi5);
+      expect(Cmi5Module.Cmi5ValidationRule).toBe(Cmi5ValidationRule);
+      expect(Cmi5Module.Cmi5FetchErrorCode).toBe(Cmi5FetchErrorCode);
+      expect(Cmi5Module.Cmi5StateId).toBe(Cmi5StateId);
+    });
+  });
+
+  describe("isCmiAvailableAt", () => {
+    it("checks the given URL instead of window.location", async () => {
+      expect(Cmi5.isCmiAvailableAt(mockCmi5.url)).toBe(true);
+      expect(Cmi5.isCmiAvailableAt("http://example.com/?fetch=x")).toBe(false);
+    });
+  });
+
+  describe("fromUrl", () => {
+    it("constructs from a launch URL without window.location", async () => {
+      const cmi5 = Cmi5.fromUrl(mockCmi5.url.toString());
+      expect(cmi5.getLaunchParameters()).toEqual(DEFAULT_LAUNCH_PARAMETERS);
+    });
+
+    it("constructs from search params", async () => {
+      const cmi5 = Cmi5.fromSearchParams(mockCmi5.search);
+      expect(cmi5.getLaunchParameters()).toEqual(DEFAULT_LAUNCH_PARAMETERS);
+    });
+
+    it("throws a Cmi5LaunchParameterError when actor is not JSON", async () => {
+      const search = mockCmi5.search;
+      search.set("actor", "not-json");
+      expect(() => Cmi5.fromSearchParams(search)).toThrow(
+        new Cmi5LaunchParameterError(
+          "actor",
+          "Unable to construct, `actor` parameter is not valid JSON."
+        )
+      );
+    });
+  });
+
   describe("initialize", () => {
     it("authenticates, loads state and profile and posts initialized statement", async () => {
       await initialize(mockCmi5);
@@ -166,7 +250,86 @@ describe("Cmi5", () => {
       });
     });
 
-    [401, 404, 500, 502].forEach((failStatus) => {
+    it("throws a Cmi5LaunchDataError listing every invalid LMS.LaunchData field", async () => {
+      mockCmi5.mockLocation();
+      mockCmi5.mockFetch();
+      mockCmi5.mockLaunchData({
+        contextTemplate: undefined,
+        launchMode: null,
+        moveOn: "Sometimes" as never,
+      });
+      await expect(Cmi5.instance.initialize()).rejects.toEqual(
+        expect.objectContaining({
+          name: "Cmi5LaunchDataError",
+          errors: [
+            expect.objectContaining({ path: "contextTemplate" }),
+            expect.objectContaining({ path: "launchMode" }),
+            expect.objectContaining({ path: "moveOn" }),
+          ],
+        })
+      );
+      expect(Cmi5.instance.sessionState).toEqual("uninitialized");
+    });
+
+    it("normalizes a numeric string masteryScore and emits a warning", async () => {
+      const launchDataWarnings = jest.fn();
+      mockCmi5.mockLocation();
+      Cmi5.instance.on("launchDataWarnings", launchDataWarnings);
+      await initialize(mockCmi5, {
+        mockLaunchData: () =>
+          mockCmi5.mockLaunchData({ masteryScore: "0.8" as never }),
+      });
+      expect(Cmi5.instance.getLaunchData().masteryScore).toEqual(0.8);
+      expect(launchDataWarnings).toHaveBeenCalledWith({
+        warnings: expect.arrayContaining([
+          expect.objectContaining({
+            path: "masteryScore",
+            message: "Normalized masteryScore '0.8' to 0.8",
+          }),
+        ]),
+      });
+    });
+
+    it("returns empty learner preferences when the profile does not exist (404)", async () => {
+      mockCmi5.mockLocation();
+      mockCmi5.mockFetch();
+      mockCmi5.mockGetState();
+      mockCmi5.mockGetAgentProfile({
+        status: 404,
+        config: {
+          url: "agents/profile",
+          headers: new AxiosHeaders(),
+        },
+      });
+      mockCmi5.mockSendStatement();
+      await Cmi5.instance.initialize();
+      expect(Cmi5.instance.getLearnerPreferences()).toEqual({});
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expectActivityStatement(Cmi5.instance, Cmi5DefinedVerbs.INITIALIZED)
+      );
+    });
+
+    it("reads the learner preferences again before writing when they could not be read on initialize", async () => {
+      mockCmi5.mockLocation();
+      mockCmi5.mockFetch();
+      mockCmi5.mockGetState();
+      mockCmi5.mockGetAgentProfile({ status: 500 });
+      mockCmi5.mockSendStatement();
+      await Cmi5.instance.initialize();
+      mockCmi5.mockGetAgentProfile({
+        data: { languagePreference: "en-US" },
+        headers: { etag: "etag-1" },
+      });
+      const mockSetAgentProfile = jest
+        .spyOn(XAPI.prototype, "setAgentProfile")
+        .mockResolvedValue({ headers: {} } as never);
+      await Cmi5.instance.setLearnerPreferences({ audioPreference: "off" });
+      expect(mockSetAgentProfile).toHaveBeenCalledWith(
+        expect.objectContaining({ etag: "etag-1", matchHeader: "If-Match" })
+      );
+    });
+
+    [401, 500, 502].forEach((failStatus) => {
       it(`swallows errors on getLearnerPrefs failed with ${failStatus}`, async () => {
         mockCmi5.mockLocation();
         mockCmi5.mockFetch();
@@ -174,13 +337,21 @@ describe("Cmi5", () => {
         mockCmi5.mockGetAgentProfile({
           status: failStatus,
           config: {
-            url: "activities/profile",
+            url: "agents/profile",
             headers: new AxiosHeaders(),
           },
         });
         mockCmi5.mockSendStatement();
+        const error = jest.fn();
+        Cmi5.instance.on("error", error);
         await Cmi5.instance.initialize();
         expect(Cmi5.instance.getLearnerPreferences()).toEqual({});
+        expect(error).toHaveBeenCalledWith({
+          error: expect.objectContaining({
+            name: "Cmi5LrsError",
+            status: failStatus,
+          }),
+        });
         expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
           expectActivityStatement(Cmi5.instance, Cmi5DefinedVerbs.INITIALIZED)
         );
@@ -220,6 +391,88 @@ describe("Cmi5", () => {
     });
   });
 
+  describe("fetch errors", () => {
+    [
+      { status: 200, errorCode: "1", errorText: "Already in use" },
+      { status: 400, errorCode: "2", errorText: "General Security Error" },
+      { status: 500, errorCode: "3", errorText: "General Application Error" },
+    ].forEach((ex) => {
+      it(`throws a Cmi5FetchError for error-code ${ex.errorCode} with status ${ex.status}`, async () => {
+        mockCmi5.mockLocation();
+        mockCmi5.mockAxios.onPost(mockCmi5.fetch).reply(ex.status, {
+          "error-code": ex.errorCode,
+          "error-text": ex.errorText,
+        });
+        await expect(Cmi5.instance.initialize()).rejects.toThrow(
+          expect.objectContaining({
+            name: "Cmi5FetchError",
+            errorCode: Number(ex.errorCode),
+            errorText: ex.errorText,
+            message: ex.errorText,
+          })
+        );
+      });
+    });
+
+    it("allows retrying the fetch URL after a network or server error", async () => {
+      mockCmi5.mockLocation();
+      mockCmi5.mockAxios.onPost(mockCmi5.fetch).replyOnce(503);
+      await expect(Cmi5.instance.initialize()).rejects.toThrow(
+        expect.objectContaining({
+          errorCode: Cmi5FetchErrorCode.GENERAL_APPLICATION_ERROR,
+        })
+      );
+      await initialize(mockCmi5);
+      expect(Cmi5.instance.sessionState).toEqual("active");
+      expect(mockCmi5.mockAxios.history.post).toHaveLength(2);
+    });
+
+    it("treats the fetch URL as used when the LMS reports it in use", async () => {
+      mockCmi5.mockLocation();
+      mockCmi5.mockAxios
+        .onPost(mockCmi5.fetch)
+        .reply(200, { "error-code": "1", "error-text": "Already in use" });
+      await expect(Cmi5.instance.initialize()).rejects.toBeTruthy();
+      await expect(Cmi5.instance.initialize()).rejects.toThrow(
+        expect.objectContaining({
+          errorCode: Cmi5FetchErrorCode.ALREADY_IN_USE,
+        })
+      );
+      expect(mockCmi5.mockAxios.history.post).toHaveLength(1);
+    });
+
+    it("detects the fetch URL being used a second time", async () => {
+      await initialize(mockCmi5);
+      Cmi5.clearInstance();
+      mockCmi5.mockAxios.resetHistory();
+      let exception: Cmi5FetchError;
+      try {
+        await Cmi5.instance.initialize();
+      } catch (err) {
+        exception = err;
+      }
+      expect(exception).toBeInstanceOf(Cmi5FetchError);
+      expect(exception.errorCode).toEqual(1);
+      expect(mockCmi5.mockAxios.history.post).toHaveLength(0);
+    });
+  });
+
+  describe("LRS errors", () => {
+    it("throws a Cmi5LrsError with the HTTP status when sending a statement fails", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockSendStatement({ status: 503 });
+      let exception: Cmi5LrsError;
+      try {
+        await Cmi5.instance.progress(10);
+      } catch (err) {
+        exception = err;
+      }
+      expect(exception).toBeInstanceOf(Cmi5LrsError);
+      expect(exception.status).toEqual(503);
+      expect(exception.message).toEqual("Unable to send statement (HTTP 503)");
+    });
+  });
+
   describe("complete", () => {
     it("posts a COMPLETED statement", async () => {
       await initialize(mockCmi5);
@@ -274,7 +527,7 @@ describe("Cmi5", () => {
       });
     });
 
-    ["Browse", "Review", null].forEach((launchMode) => {
+    ["Browse", "Review"].forEach((launchMode) => {
       it(`throws exception if COMPLETED invalid for launch mode ${launchMode}`, async () => {
         mockCmi5.fakeLaunchData = {
           ...mockCmi5.fakeLaunchData,
@@ -358,7 +611,7 @@ describe("Cmi5", () => {
       );
     });
 
-    ["Browse", "Review", null].forEach((launchMode) => {
+    ["Browse", "Review"].forEach((launchMode) => {
       it(`throws exception if PASSED invalid for launch mode ${launchMode}`, async () => {
         mockCmi5.fakeLaunchData = {
           ...mockCmi5.fakeLaunchData,
@@ -514,7 +767,7 @@ describe("Cmi5", () => {
       );
     });
 
-    ["Browse", "Review", null].forEach((launchMode) => {
+    ["Browse", "Review"].forEach((launchMode) => {
       it(`throws exception if FAILED invalid for launch mode ${launchMode}`, async () => {
         mockCmi5.fakeLaunchData = {
           ...mockCmi5.fakeLaunchData,
@@ -764,4 +1017,1413 @@ describe("Cmi5", () => {
       );
     });
   });
+
+  describe("moveOn result", () => {
+    it("describes what was sent and whether the AU is satisfied", async () => {
+      await initialize(mockCmi5);
+      const result = await Cmi5.instance.moveOn({ score: 0.9 });
+      expect(result).toEqual({
+        statementIds: [
+          expect.any(String),
+          expect.any(String),
+          expect.any(String),
+        ],
+        verbs: [
+          Cmi5DefinedVerbs.PASSED,
+          Cmi5DefinedVerbs.COMPLETED,
+          Cmi5DefinedVerbs.TERMINATED,
+        ],
+        completed: true,
+        passed: true,
+        failed: false,
+        satisfied: true,
+      });
+    });
+
+    it("leaves statements vetoed by middleware out of the result", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.use((s) =>
+        [
+          Cmi5DefinedVerbs.COMPLETED.id,
+          Cmi5DefinedVerbs.TERMINATED.id,
+        ].includes(s.verb.id)
+          ? null
+          : s
+      );
+      const result = await Cmi5.instance.moveOn({ score: 0.9 });
+      expect(result.statementIds).toEqual(["fake-statement-id"]);
+      expect(result.verbs).toEqual([Cmi5DefinedVerbs.PASSED]);
+      expect(result.completed).toBe(false);
+      expect(Cmi5.instance.sessionState).toEqual("active");
+    });
+
+    it("is not satisfied by a failing score when moveOn requires passing", async () => {
+      await initialize(mockCmi5, {
+        mockLaunchData: () => mockCmi5.mockLaunchData({ moveOn: "Passed" }),
+      });
+      const result = await Cmi5.instance.moveOn({ score: 0.1 });
+      expect(result.verbs).toEqual([
+        Cmi5DefinedVerbs.FAILED,
+        Cmi5DefinedVerbs.TERMINATED,
+      ]);
+      expect(result.satisfied).toBe(false);
+    });
+  });
+
+  describe("batch", () => {
+    it("sends the moveOn statements as a single request", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockSendStatements();
+      mockCmi5.mockXapiSendStatement.mockClear();
+      const result = await Cmi5.instance.moveOn({ score: 0.9, batch: true });
+      expect(mockCmi5.mockXapiSendStatement).not.toHaveBeenCalled();
+      expect(mockCmi5.mockXapiSendStatements).toHaveBeenCalledTimes(1);
+      const { statements } = mockCmi5.mockXapiSendStatements.mock.calls[0][0];
+      expect(statements.map((s: Statement) => s.verb)).toEqual([
+        Cmi5DefinedVerbs.PASSED,
+        Cmi5DefinedVerbs.COMPLETED,
+        Cmi5DefinedVerbs.TERMINATED,
+      ]);
+      expect(result.statementIds).toEqual(
+        statements.map((s: Statement) => s.id)
+      );
+      expect(Cmi5.instance.sessionState).toEqual("terminated");
+    });
+
+    it("leaves the session unchanged when the batch is rejected", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockSendStatements({ status: 400 });
+      await expect(
+        Cmi5.instance.moveOn({ score: 0.9, batch: true })
+      ).rejects.toBeTruthy();
+      expect(Cmi5.instance.sessionState).toEqual("active");
+      expect(Cmi5.instance.getSentDefinedVerbs()).toEqual([
+        Cmi5DefinedVerbs.INITIALIZED,
+      ]);
+    });
+
+    it("applies the transform to every statement passed to sendXapiStatements", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockSendStatements();
+      const extensions = { "http://example.com/ext": true };
+      await Cmi5.instance.sendXapiStatements(
+        [
+          Cmi5ProgressStatement(Cmi5.instance, 10),
+          Cmi5ProgressStatement(Cmi5.instance, 20),
+        ],
+        { transform: (s) => ({ ...s, context: { ...s.context, extensions } }) }
+      );
+      const { statements } = mockCmi5.mockXapiSendStatements.mock.calls[0][0];
+      expect(statements).toHaveLength(2);
+      statements.forEach((s: Statement) =>
+        expect(s.context.extensions).toEqual(extensions)
+      );
+    });
+  });
+
+  describe("terminate on unload", () => {
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+      fetchMock = jest.fn(() => Promise.resolve());
+      (global as any).fetch = fetchMock;
+    });
+
+    afterEach(() => {
+      Cmi5.instance.disableTerminateOnUnload();
+      delete (global as any).fetch;
+    });
+
+    it("sends TERMINATED with fetch keepalive on pagehide", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableTerminateOnUnload();
+      mockDateFloorSeconds(Date.now() + 42 * 1000);
+      window.dispatchEvent(new Event("pagehide"));
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toEqual(`${mockCmi5.endpoint}statements`);
+      expect(init).toEqual(
+        expect.objectContaining({
+          method: "POST",
+          keepalive: true,
+          headers: expect.objectContaining({
+            Authorization: `Basic ${Cmi5.instance.getAuthToken()}`,
+          }),
+        })
+      );
+      expect(JSON.parse(init.body)).toEqual(
+        expect.objectContaining({
+          verb: Cmi5DefinedVerbs.TERMINATED,
+          result: { duration: "PT42S" },
+        })
+      );
+      expect(Cmi5.instance.sessionState).toEqual("terminated");
+    });
+
+    it("uses navigator.sendBeacon when requested", async () => {
+      const sendBeacon = jest.fn(() => true);
+      (navigator as any).sendBeacon = sendBeacon;
+      await initialize(mockCmi5);
+      Cmi5.instance.enableTerminateOnUnload({ transport: "beacon" });
+      window.dispatchEvent(new Event("pagehide"));
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(sendBeacon).toHaveBeenCalledWith(
+        `${mockCmi5.endpoint}statements?method=POST`,
+        expect.any(URLSearchParams)
+      );
+      delete (navigator as any).sendBeacon;
+    });
+
+    it("does not send TERMINATED again after terminate()", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableTerminateOnUnload();
+      await Cmi5.instance.terminate();
+      window.dispatchEvent(new Event("pagehide"));
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("ignores visibilitychange unless opted in", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableTerminateOnUnload();
+      document.dispatchEvent(new Event("visibilitychange"));
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("session persistence", () => {
+    it("resumes a persisted session without fetching or sending INITIALIZED", async () => {
+      const store = new MemorySessionStore();
+      mockCmi5.mockLocation();
+      Cmi5.instance.enableSessionPersistence(store);
+      await initialize(mockCmi5);
+      await Cmi5.instance.complete();
+      const authToken = Cmi5.instance.getAuthToken();
+      const initializedDate = Cmi5.instance.getInitializedDate();
+
+      Cmi5.clearInstance();
+      mockCmi5.mockAxios.reset();
+      mockCmi5.mockXapiGetState.mockClear();
+      mockCmi5.mockXapiSendStatement.mockClear();
+      Cmi5.instance.enableSessionPersistence(store);
+      await Cmi5.instance.initialize();
+
+      expect(mockCmi5.mockAxios.history.post).toHaveLength(0);
+      expect(mockCmi5.mockXapiGetState).not.toHaveBeenCalled();
+      expect(mockCmi5.mockXapiSendStatement).not.toHaveBeenCalled();
+      expect(Cmi5.instance.sessionState).toEqual("active");
+      expect(Cmi5.instance.getAuthToken()).toEqual(authToken);
+      expect(Cmi5.instance.getInitializedDate()).toEqual(initializedDate);
+      expect(Cmi5.instance.getLaunchData()).toEqual(mockCmi5.fakeLaunchData);
+      expect(Cmi5.instance.canSend(Cmi5DefinedVerbs.COMPLETED)).toBe(false);
+    });
+
+    it("starts a new session for a new launch in the same registration", async () => {
+      const store = new MemorySessionStore();
+      mockCmi5.mockLocation();
+      Cmi5.instance.enableSessionPersistence(store);
+      await initialize(mockCmi5);
+      await Cmi5.instance.complete();
+
+      Cmi5.clearInstance();
+      mockCmi5.mockAxios.reset();
+      mockCmi5.mockXapiSendStatement.mockClear();
+      mockCmi5.fetch = `${mockCmi5.urlBase}/fetchauth-2`;
+      mockCmi5.mockLocation();
+      mockCmi5.mockFetch();
+      Cmi5.instance.enableSessionPersistence(store);
+      await Cmi5.instance.initialize();
+
+      expect(mockCmi5.mockAxios.history.post).toEqual([
+        expect.objectContaining({ url: mockCmi5.fetch }),
+      ]);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expectActivityStatement(Cmi5.instance, Cmi5DefinedVerbs.INITIALIZED)
+      );
+      expect(Cmi5.instance.canSend(Cmi5DefinedVerbs.COMPLETED)).toBe(true);
+      expect(
+        await store.load(sessionKey(mockCmi5.registration, mockCmi5.activityId))
+      ).toEqual(expect.objectContaining({ fetchUrl: mockCmi5.fetch }));
+    });
+
+    it("removes the persisted session once terminated", async () => {
+      const store = new MemorySessionStore();
+      mockCmi5.mockLocation();
+      Cmi5.instance.enableSessionPersistence(store);
+      await initialize(mockCmi5);
+      expect(
+        await store.load(sessionKey(mockCmi5.registration, mockCmi5.activityId))
+      ).toEqual(expect.objectContaining({ sessionState: "active" }));
+      await Cmi5.instance.terminate();
+      expect(
+        await store.load(sessionKey(mockCmi5.registration, mockCmi5.activityId))
+      ).toBeNull();
+    });
+
+    it("persists and restores pending queued statements", async () => {
+      const store = new MemorySessionStore();
+      await store.save(sessionKey(mockCmi5.registration, mockCmi5.activityId), {
+        fetchUrl: mockCmi5.fetch,
+        authToken: "dGVzdDp0ZXN0",
+        initializedDate: new Date().toISOString(),
+        activeDuration: null,
+        launchData: mockCmi5.fakeLaunchData,
+        learnerPreferences: {},
+        sessionState: "active",
+        sentDefinedVerbs: ["INITIALIZED"],
+        pendingStatements: [
+          {
+            statement: { id: "pending-id" } as Statement,
+            attempts: 1,
+            enqueuedAt: new Date().toISOString(),
+          },
+        ],
+      });
+      mockCmi5.mockLocation();
+      mockCmi5.mockSendStatement();
+      Cmi5.instance.enableSessionPersistence(store);
+      await Cmi5.instance.initialize();
+      await Cmi5.instance.flushStatementQueue();
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith({
+        statement: { id: "pending-id" },
+      });
+    });
+  });
+
+  describe("session state", () => {
+    it("is 'uninitialized' before initialize and 'active' after", async () => {
+      mockCmi5.mockLocation();
+      expect(Cmi5.instance.getSessionState()).toEqual("uninitialized");
+      await initialize(mockCmi5);
+      expect(Cmi5.instance.sessionState).toEqual("active");
+      expect(Cmi5.instance.getSentDefinedVerbs()).toEqual([
+        Cmi5DefinedVerbs.INITIALIZED,
+      ]);
+    });
+
+    it("returns to 'uninitialized' when initialize fails", async () => {
+      mockCmi5.mockLocation();
+      mockCmi5.mockFetch(500);
+      await expect(Cmi5.instance.initialize()).rejects.toBeTruthy();
+      expect(Cmi5.instance.sessionState).toEqual("uninitialized");
+    });
+
+    it("rejects a second initialize", async () => {
+      await initialize(mockCmi5);
+      await expect(Cmi5.instance.initialize()).rejects.toThrow(
+        Cmi5SessionStateError
+      );
+    });
+
+    [
+      { name: "complete", call: () => Cmi5.instance.complete() },
+      { name: "pass", call: () => Cmi5.instance.pass(0.9) },
+      { name: "fail", call: () => Cmi5.instance.fail(0.1) },
+      { name: "progress", call: () => Cmi5.instance.progress(50) },
+      { name: "terminate", call: () => Cmi5.instance.terminate() },
+      {
+        name: "interactionTrueFalse",
+        call: () => Cmi5.instance.interactionTrueFalse("t", "q", true),
+      },
+    ].forEach((ex) => {
+      it(`rejects ${ex.name} before initialize`, async () => {
+        mockCmi5.mockLocation();
+        mockCmi5.mockSendStatement();
+        await expect(ex.call()).rejects.toThrow(
+          expect.objectContaining({
+            name: "Cmi5SessionStateError",
+            sessionState: "uninitialized",
+          })
+        );
+        expect(mockCmi5.mockXapiSendStatement).not.toHaveBeenCalled();
+      });
+    });
+
+    it("throws when COMPLETED is sent twice", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.complete();
+      await expect(Cmi5.instance.complete()).rejects.toThrow(
+        expect.objectContaining({
+          message: "COMPLETED has already been sent",
+          verb: "COMPLETED",
+        })
+      );
+    });
+
+    it("throws when PASSED is sent after FAILED", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.fail(0.1);
+      expect(Cmi5.instance.canSend(Cmi5DefinedVerbs.PASSED)).toBe(false);
+      await expect(Cmi5.instance.pass(0.9)).rejects.toThrow(
+        expect.objectContaining({
+          message: "Cannot send PASSED after FAILED",
+        })
+      );
+    });
+
+    it("throws on any statement after terminate", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.terminate();
+      expect(Cmi5.instance.sessionState).toEqual("terminated");
+      expect(Cmi5.instance.canSend(Cmi5DefinedVerbs.COMPLETED)).toBe(false);
+      await expect(Cmi5.instance.progress(10)).rejects.toThrow(
+        Cmi5SessionStateError
+      );
+    });
+
+    it("rejects lifecycle violations through the promise", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.complete();
+      const handler = jest.fn();
+      await Cmi5.instance.complete().catch(handler);
+      expect(handler).toHaveBeenCalledWith(expect.any(Cmi5SessionStateError));
+    });
+
+    it("allows a defined verb to be retried when sending it failed", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockSendStatement({ status: 500 });
+      await expect(Cmi5.instance.complete()).rejects.toBeTruthy();
+      expect(Cmi5.instance.canSend(Cmi5DefinedVerbs.COMPLETED)).toBe(true);
+    });
+
+    it("does not resend COMPLETED from moveOn when already sent", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.complete();
+      mockCmi5.mockXapiSendStatement.mockClear();
+      await Cmi5.instance.moveOn({ score: 0.9 });
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledTimes(2);
+      expect(Cmi5.instance.sessionState).toEqual("terminated");
+    });
+  });
+
+  describe("statement queue", () => {
+    it("reports no status when the queue is not enabled", async () => {
+      await initialize(mockCmi5);
+      expect(Cmi5.instance.getStatementQueueStatus()).toBeNull();
+    });
+
+    it("retries queued statements and terminate resolves once all are delivered", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.enableStatementQueue({ initialRetryDelay: 1 });
+      mockCmi5.mockXapiSendStatement.mockClear();
+      mockCmi5.mockXapiSendStatement.mockRejectedValueOnce(
+        new Error("Network Error")
+      );
+      Cmi5.instance.progress(50);
+      await Cmi5.instance.terminate();
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledTimes(3);
+      expect(Cmi5.instance.getStatementQueueStatus()).toEqual(
+        expect.objectContaining({
+          pending: 0,
+          lastError: new Error("Network Error"),
+        })
+      );
+    });
+  });
+  describe("middleware", () => {
+    it("applies middleware in order of registration", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.use((s) => ({ ...s, result: { response: "a" } }));
+      Cmi5.instance.use(async (s) => ({
+        ...s,
+        result: { response: `${s.result.response}b` },
+      }));
+      await Cmi5.instance.progress(50);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            result: { response: "ab" },
+          }),
+        })
+      );
+    });
+
+    it("does not send a statement vetoed by middleware", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockXapiSendStatement.mockClear();
+      const remove = Cmi5.instance.use((s) =>
+        s.verb.id === Cmi5DefinedVerbs.COMPLETED.id ? null : s
+      );
+      const response = await Cmi5.instance.complete();
+      expect(response.data).toEqual([]);
+      expect(mockCmi5.mockXapiSendStatement).not.toHaveBeenCalled();
+      expect(Cmi5.instance.canSend(Cmi5DefinedVerbs.COMPLETED)).toBe(true);
+      remove();
+      await Cmi5.instance.complete();
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("events", () => {
+    it("emits initialized, statementSent and terminated", async () => {
+      mockCmi5.mockLocation();
+      const initialized = jest.fn();
+      const statementSent = jest.fn();
+      const terminated = jest.fn();
+      Cmi5.instance.on("initialized", initialized);
+      Cmi5.instance.on("statementSent", statementSent);
+      Cmi5.instance.on("terminated", terminated);
+      await initialize(mockCmi5);
+      await Cmi5.instance.terminate();
+      expect(initialized).toHaveBeenCalledWith({ resumed: false });
+      expect(statementSent).toHaveBeenCalledTimes(2);
+      expect(terminated).toHaveBeenCalledWith({
+        statement: expect.objectContaining({
+          verb: Cmi5DefinedVerbs.TERMINATED,
+        }),
+      });
+    });
+
+    it("emits statementFailed and error when sending fails", async () => {
+      await initialize(mockCmi5);
+      const statementFailed = jest.fn();
+      const error = jest.fn();
+      Cmi5.instance.on("statementFailed", statementFailed);
+      const off = Cmi5.instance.on("error", error);
+      mockCmi5.mockSendStatement({ status: 500 });
+      await expect(Cmi5.instance.progress(10)).rejects.toThrow(Cmi5LrsError);
+      expect(statementFailed).toHaveBeenCalledWith({
+        statement: expect.objectContaining({ verb: expect.anything() }),
+        error: expect.any(Cmi5LrsError),
+      });
+      expect(error).toHaveBeenCalledTimes(1);
+      off();
+      await expect(Cmi5.instance.progress(20)).rejects.toThrow(Cmi5LrsError);
+      expect(error).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe("strict validation", () => {
+    it("rejects a non-conforming statement without sending it", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockXapiSendStatement.mockClear();
+      await expect(
+        Cmi5.instance.progress(150, { strict: true })
+      ).rejects.toThrow(Cmi5ValidationError);
+      expect(mockCmi5.mockXapiSendStatement).not.toHaveBeenCalled();
+    });
+
+    it("validates every statement once enabled", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableStrictValidation();
+      await expect(
+        Cmi5.instance.complete({
+          transform: (s) => ({
+            ...s,
+            context: { ...s.context, contextActivities: {} },
+          }),
+        })
+      ).rejects.toThrow("COMPLETED is missing the cmi5 category");
+      expect(Cmi5.instance.canSend(Cmi5DefinedVerbs.COMPLETED)).toBe(true);
+      await Cmi5.instance.complete();
+      await expect(
+        Cmi5.instance.progress(150, { strict: false })
+      ).resolves.toBeTruthy();
+    });
+  });
+  describe("launch mode policy", () => {
+    async function initializeInMode(
+      launchMode: "Normal" | "Browse" | "Review"
+    ): Promise<void> {
+      mockCmi5.fakeLaunchData = { ...mockCmi5.fakeLaunchData, launchMode };
+      await initialize(mockCmi5);
+      mockCmi5.mockXapiSendStatement.mockClear();
+    }
+
+    it("reports the launch mode", async () => {
+      await initializeInMode("Review");
+      expect(Cmi5.instance.isReviewMode).toBe(true);
+      expect(Cmi5.instance.isBrowseMode).toBe(false);
+      expect(Cmi5.instance.isNormalMode).toBe(false);
+    });
+
+    it("sends answers and progress in Review mode by default", async () => {
+      await initializeInMode("Review");
+      expect(Cmi5.instance.launchModePolicy).toBeNull();
+      await Cmi5.instance.progress(10);
+      await Cmi5.instance.interactionTrueFalse("t", "q", true);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledTimes(2);
+      await expect(Cmi5.instance.complete()).rejects.toThrow(
+        Cmi5LaunchModeError
+      );
+    });
+
+    it("throws on answers and progress in Review mode with the throw policy", async () => {
+      await initializeInMode("Review");
+      Cmi5.instance.setLaunchModePolicy("throw");
+      await expect(Cmi5.instance.progress(10)).rejects.toThrow(
+        "Cannot send http://adlnet.gov/expapi/verbs/progressed when launchMode is 'Review'"
+      );
+      await expect(
+        Cmi5.instance.interactionTrueFalse("t", "q", true)
+      ).rejects.toThrow(Cmi5LaunchModeError);
+    });
+
+    it("allows answers and progress in Browse mode", async () => {
+      await initializeInMode("Browse");
+      await Cmi5.instance.progress(10);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips restricted statements with a resolved no-op result", async () => {
+      await initializeInMode("Review");
+      Cmi5.instance.setLaunchModePolicy("skip");
+      await expect(Cmi5.instance.complete()).resolves.toEqual(
+        expect.objectContaining({ data: [] })
+      );
+      await expect(Cmi5.instance.progress(10)).resolves.toEqual(
+        expect.objectContaining({ data: [] })
+      );
+      expect(mockCmi5.mockXapiSendStatement).not.toHaveBeenCalled();
+    });
+
+    it("tags allowed statements with the launch mode", async () => {
+      await initializeInMode("Review");
+      Cmi5.instance.setLaunchModePolicy("tag");
+      await Cmi5.instance.interactionTrueFalse("t", "q", true);
+      await Cmi5.instance.pass(1);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledTimes(1);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            verb: expect.objectContaining({
+              id: "http://adlnet.gov/expapi/verbs/answered",
+            }),
+            context: expect.objectContaining({
+              extensions: expect.objectContaining({
+                "https://w3id.org/xapi/cmi5/context/extensions/launchmode":
+                  "Review",
+              }),
+            }),
+          }),
+        })
+      );
+    });
+
+    it("only sends TERMINATED from moveOn outside of Normal mode", async () => {
+      await initializeInMode("Browse");
+      Cmi5.instance.setLaunchModePolicy("skip");
+      const result = await Cmi5.instance.moveOn({ score: 1 });
+      expect(result.verbs).toEqual([Cmi5DefinedVerbs.TERMINATED]);
+      expect(Cmi5.instance.sessionState).toEqual("terminated");
+    });
+  });
+  describe("attempt summary", () => {
+    it("summarises every page of statements for the AU in this registration", async () => {
+      await initialize(mockCmi5);
+      const passed = Cmi5PassStatement(Cmi5.instance, 0.9);
+      const completed = Cmi5CompleteStatement(Cmi5.instance);
+      mockCmi5.mockGetStatements([passed], [completed]);
+      await expect(Cmi5.instance.getAttemptSummary()).resolves.toEqual(
+        expect.objectContaining({
+          completed: true,
+          passed: true,
+          bestScore: { scaled: 0.9 },
+          satisfied: true,
+        })
+      );
+      expect(mockCmi5.mockXapiGetStatements).toHaveBeenCalledWith({
+        agent: DEFAULT_LAUNCH_PARAMETERS.actor,
+        registration: DEFAULT_LAUNCH_PARAMETERS.registration,
+        activity: DEFAULT_LAUNCH_PARAMETERS.activityId,
+      });
+      expect(mockCmi5.mockXapiGetMoreStatements).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws a Cmi5LrsError when the LRS query fails", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockXapiGetStatements.mockRejectedValue({
+        response: { status: 403 },
+      });
+      await expect(Cmi5.instance.getAttemptSummary()).rejects.toThrow(
+        "Unable to get statements (HTTP 403)"
+      );
+    });
+
+    it("throws before initialize", async () => {
+      mockCmi5.mockLocation();
+      await expect(Cmi5.instance.getAttemptSummary()).rejects.toThrow(
+        Cmi5SessionStateError
+      );
+    });
+  });
+  describe("bookmark and suspend data", () => {
+    it("reads and writes the bookmark in the State API for this registration", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockGetState({ data: "page-3", headers: { etag: "etag-1" } });
+      const mockSetState = jest
+        .spyOn(XAPI.prototype, "setState")
+        .mockResolvedValue({ headers: {} } as never);
+      expect(await Cmi5.instance.getBookmark()).toEqual("page-3");
+      await Cmi5.instance.setBookmark("page-4");
+      expect(mockSetState).toHaveBeenCalledWith({
+        agent: DEFAULT_LAUNCH_PARAMETERS.actor,
+        activityId: DEFAULT_LAUNCH_PARAMETERS.activityId,
+        registration: DEFAULT_LAUNCH_PARAMETERS.registration,
+        stateId: "cmi5.bookmark",
+        state: JSON.stringify("page-4"),
+        contentType: "application/json",
+        etag: "etag-1",
+        matchHeader: "If-Match",
+      });
+    });
+
+    it("flushes debounced suspend data", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockGetState({ status: 404 });
+      const mockSetState = jest
+        .spyOn(XAPI.prototype, "setState")
+        .mockResolvedValue({ headers: {} } as never);
+      const saved = Cmi5.instance.setSuspendData(
+        { answers: [1, 2] },
+        { debounce: 60000 }
+      );
+      await Cmi5.instance.flushState();
+      await saved;
+      expect(mockSetState).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stateId: "cmi5.suspendData",
+          state: JSON.stringify({ answers: [1, 2] }),
+          matchHeader: "If-None-Match",
+        })
+      );
+    });
+
+    it("rejects before initialize", async () => {
+      mockCmi5.mockLocation();
+      await expect(Cmi5.instance.getSuspendData()).rejects.toThrow(
+        Cmi5SessionStateError
+      );
+      await expect(Cmi5.instance.setBookmark("page-2")).rejects.toThrow(
+        Cmi5SessionStateError
+      );
+    });
+  });
+  describe("learner preferences", () => {
+    it("updates the learner preferences profile with If-Match and emits a change", async () => {
+      await initialize(mockCmi5);
+      // Read again for its ETag, as none was returned on initialize
+      mockCmi5.mockGetAgentProfile({
+        data: { languagePreference: "en-US" },
+        headers: { etag: "etag-1" },
+      });
+      const mockSetAgentProfile = jest
+        .spyOn(XAPI.prototype, "setAgentProfile")
+        .mockResolvedValue({ headers: { etag: "etag-2" } } as never);
+      const changed = jest.fn();
+      Cmi5.instance.on("learnerPreferencesChanged", changed);
+      await Cmi5.instance.setLearnerPreferences({ audioPreference: "off" });
+      expect(mockSetAgentProfile).toHaveBeenCalledWith({
+        agent: DEFAULT_LAUNCH_PARAMETERS.actor,
+        profileId: "cmi5LearnerPreferences",
+        profile: { languagePreference: "en-US", audioPreference: "off" },
+        etag: "etag-1",
+        matchHeader: "If-Match",
+      });
+      expect(Cmi5.instance.getLearnerPreferences()).toEqual({
+        languagePreference: "en-US",
+        audioPreference: "off",
+      });
+      expect(changed).toHaveBeenCalledWith({
+        learnerPreferences: {
+          languagePreference: "en-US",
+          audioPreference: "off",
+        },
+        previous: { languagePreference: "en-US" },
+      });
+    });
+
+    it("creates the profile with If-None-Match when none exists", async () => {
+      await initialize(mockCmi5);
+      mockCmi5.mockGetAgentProfile({ status: 404 });
+      const mockSetAgentProfile = jest
+        .spyOn(XAPI.prototype, "setAgentProfile")
+        .mockResolvedValue({ headers: {} } as never);
+      await Cmi5.instance.setLearnerPreferences({ languagePreference: "fr" });
+      expect(mockSetAgentProfile).toHaveBeenCalledWith(
+        expect.objectContaining({ etag: "*", matchHeader: "If-None-Match" })
+      );
+    });
+
+    it("throws a Cmi5ConcurrencyError when another session changed them", async () => {
+      await initialize(mockCmi5);
+      jest
+        .spyOn(XAPI.prototype, "setAgentProfile")
+        .mockRejectedValue({ response: { status: 412 } });
+      await expect(
+        Cmi5.instance.setLearnerPreferences({ audioPreference: "on" })
+      ).rejects.toThrow(Cmi5ConcurrencyError);
+      expect(Cmi5.instance.getLearnerPreferences()).toEqual({});
+    });
+  });
+  describe("activity tracking", () => {
+    const manualOnly = { trackVisibility: false, idleTimeout: 0 };
+
+    it("reports active duration and keeps wall-clock duration in an extension", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableActivityTracking(manualOnly);
+      mockDateFloorSeconds(Date.now() + 60 * 1000);
+      Cmi5.instance.pause();
+      mockDateFloorSeconds(Date.now() + 3600 * 1000);
+      Cmi5.instance.resume();
+      mockDateFloorSeconds(Date.now() + 30 * 1000);
+      expect(Cmi5.instance.getActiveDuration()).toEqual(90000);
+      Cmi5.instance.terminate();
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expectActivityStatement(Cmi5.instance, Cmi5DefinedVerbs.TERMINATED, {
+          result: {
+            duration: "PT1M30S",
+            extensions: {
+              [Cmi5ResultExtension.WALL_CLOCK_DURATION]: "PT1H1M30S",
+            },
+          },
+        })
+      );
+    });
+
+    it("sends suspended and resumed statements when enabled", async () => {
+      await initialize(mockCmi5);
+      const paused = jest.fn();
+      const resumed = jest.fn();
+      Cmi5.instance.on("paused", paused);
+      Cmi5.instance.on("resumed", resumed);
+      Cmi5.instance.enableActivityTracking({
+        ...manualOnly,
+        sendSuspendResumeStatements: true,
+      });
+      Cmi5.instance.pause();
+      Cmi5.instance.resume();
+      await Promise.resolve();
+      expect(paused).toHaveBeenCalledWith({ reason: "manual" });
+      expect(resumed).toHaveBeenCalledWith({ reason: "manual" });
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expectActivityStatement(Cmi5.instance, XAPI.Verbs.SUSPENDED)
+      );
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expectActivityStatement(Cmi5.instance, XAPI.Verbs.RESUMED)
+      );
+    });
+
+    it("continues a resumed session from its persisted active time", async () => {
+      const store = new MemorySessionStore();
+      mockCmi5.mockLocation();
+      Cmi5.instance.enableSessionPersistence(store);
+      await initialize(mockCmi5);
+      Cmi5.instance.enableActivityTracking(manualOnly);
+      mockDateFloorSeconds(Date.now() + 60 * 1000);
+      Cmi5.instance.pause();
+      await new Promise((resolve) => setTimeout(resolve));
+
+      Cmi5.clearInstance();
+      mockDateFloorSeconds(Date.now() + 3600 * 1000);
+      Cmi5.instance.enableSessionPersistence(store);
+      Cmi5.instance.enableActivityTracking(manualOnly);
+      await Cmi5.instance.initialize();
+      mockDateFloorSeconds(Date.now() + 30 * 1000);
+      expect(Cmi5.instance.getActiveDuration()).toEqual(90000);
+    });
+
+    it("reports wall-clock duration once tracking is disabled", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableActivityTracking(manualOnly);
+      Cmi5.instance.disableActivityTracking();
+      expect(Cmi5.instance.activeDuration).toBeNull();
+      expect(() => Cmi5.instance.pause()).toThrow(Cmi5Error);
+      mockDateFloorSeconds(Date.now() + 42 * 1000);
+      Cmi5.instance.terminate();
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expectActivityStatement(Cmi5.instance, Cmi5DefinedVerbs.TERMINATED, {
+          result: { duration: "PT42S" },
+        })
+      );
+    });
+  });
+
+  describe("interactions", () => {
+    it("sends interactions given as options with their send options", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.interactionChoice({
+        testId: "t",
+        questionId: "q",
+        answerIds: ["a", "c"],
+        correctAnswerIds: ["a", "b"],
+        success: false,
+        transform: (s) => ({
+          ...s,
+          result: { ...s.result, score: { scaled: 0 } },
+        }),
+      });
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            verb: XAPI.Verbs.ANSWERED,
+            object: expect.objectContaining({
+              id: `${DEFAULT_LAUNCH_PARAMETERS.activityId}/test/t/question/q`,
+              definition: expect.objectContaining({
+                interactionType: "choice",
+                correctResponsesPattern: ["a[,]b"],
+              }),
+            }),
+            result: { response: "a[,]c", success: false, score: { scaled: 0 } },
+          }),
+        })
+      );
+    });
+
+    it("still accepts positional arguments", async () => {
+      await initialize(mockCmi5);
+      await Cmi5.instance.interactionTrueFalse("t", "q", true, false);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            result: { response: "true", success: false },
+          }),
+        })
+      );
+    });
+  });
+
+  describe("progress tracking", () => {
+    function progressStatement(percent: number) {
+      return expectActivityStatement(Cmi5.instance, XAPI.Verbs.PROGRESSED, {
+        result: {
+          extensions: { [Cmi5ResultExtension.PROGRESS]: percent },
+        },
+      });
+    }
+
+    it("throttles progress and flushes the latest value before terminate", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableProgressTracking({ minInterval: 60000 });
+      await Cmi5.instance.progress(10.2);
+      await expect(Cmi5.instance.progress(25)).resolves.toEqual(
+        expect.objectContaining({ status: 204, data: [] })
+      );
+      await Cmi5.instance.progress(5);
+      expect(Cmi5.instance.getProgressPercent()).toEqual(25);
+      await Cmi5.instance.terminate();
+      const verbs = mockCmi5.mockXapiSendStatement.mock.calls.map(
+        ([{ statement }]) => statement.verb
+      );
+      expect(verbs).toEqual([
+        Cmi5DefinedVerbs.INITIALIZED,
+        XAPI.Verbs.PROGRESSED,
+        XAPI.Verbs.PROGRESSED,
+        Cmi5DefinedVerbs.TERMINATED,
+      ]);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        progressStatement(10)
+      );
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        progressStatement(25)
+      );
+    });
+
+    it("reports progress from completed sections", async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.enableProgressTracking({ minInterval: 0 });
+      Cmi5.instance.setProgressSections([
+        "page-1",
+        "page-2",
+        "page-3",
+        "page-4",
+      ]);
+      await Cmi5.instance.completeSection("page-2");
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        progressStatement(25)
+      );
+    });
+
+    it("still applies the launch mode policy", async () => {
+      mockCmi5.fakeLaunchData = {
+        ...mockCmi5.fakeLaunchData,
+        launchMode: "Review",
+      };
+      await initialize(mockCmi5);
+      Cmi5.instance.enableProgressTracking();
+      Cmi5.instance.setLaunchModePolicy("throw");
+      await expect(Cmi5.instance.progress(10)).rejects.toThrow(
+        Cmi5LaunchModeError
+      );
+    });
+  });
+
+  describe("languages", () => {
+    it("resolves LanguageMaps against the learner's languagePreference", async () => {
+      mockCmi5.fakeAgentProfile = { languagePreference: "fr-CA,en-US" };
+      await initialize(mockCmi5);
+      expect(Cmi5.instance.getLanguagePreferences()).toEqual([
+        "fr-CA",
+        "en-US",
+      ]);
+      expect(
+        Cmi5.instance.resolveLanguageMap({ "en-US": "Yes", "fr-FR": "Oui" })
+      ).toEqual("Oui");
+    });
+
+    it("applies the default language to plain string names and descriptions", async () => {
+      mockCmi5.fakeAgentProfile = { languagePreference: "fr-CA" };
+      await initialize(mockCmi5);
+      expect(Cmi5.instance.getDefaultLanguage()).toEqual("fr-CA");
+      Cmi5.instance.setDefaultLanguage("en-US");
+      await Cmi5.instance.interactionChoice({
+        testId: "t",
+        questionId: "q",
+        answerIds: ["a"],
+        name: "Colors",
+        description: { "fr-FR": "Couleurs" },
+        choices: [{ id: "a", description: "Red" }, { id: "b" }],
+      });
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            object: expect.objectContaining({
+              definition: expect.objectContaining({
+                name: { "en-US": "Colors" },
+                description: { "fr-FR": "Couleurs" },
+                choices: [
+                  { id: "a", description: { "en-US": "Red" } },
+                  { id: "b" },
+                ],
+              }),
+            }),
+          }),
+        })
+      );
+    });
+  });
+
+  describe("objectives", () => {
+    const FRACTIONS = {
+      objectType: "Activity",
+      id: "http://example.com/objectives/fractions",
+      definition: { type: "http://adlnet.gov/expapi/activities/objective" },
+    };
+
+    beforeEach(async () => {
+      await initialize(mockCmi5);
+      Cmi5.instance.registerObjectives({
+        fractions: { id: FRACTIONS.id, masteryScore: 0.5 },
+      });
+    });
+
+    it("resolves objective keys on interactions and aggregates their scores", async () => {
+      await Cmi5.instance.interactionTrueFalse({
+        testId: "t",
+        questionId: "q1",
+        answer: true,
+        correctAnswer: true,
+        objective: "fractions",
+      });
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            verb: XAPI.Verbs.ANSWERED,
+            context: expect.objectContaining({
+              contextActivities: { parent: [FRACTIONS] },
+            }),
+          }),
+        })
+      );
+      expect(Cmi5.instance.getObjectiveStatus("fractions")).toEqual({
+        key: "fractions",
+        objective: FRACTIONS,
+        score: { scaled: 1, raw: 1, min: 0, max: 1 },
+        satisfied: null,
+      });
+      await expect(
+        Cmi5.instance.interactionTrueFalse({
+          testId: "t",
+          questionId: "q2",
+          answer: true,
+          objective: "decimals",
+        })
+      ).rejects.toThrow(Cmi5Error);
+    });
+
+    it("sends objective results and carries satisfied objectives on PASSED", async () => {
+      await Cmi5.instance.interactionTrueFalse({
+        testId: "t",
+        questionId: "q1",
+        answer: true,
+        correctAnswer: true,
+        objective: "fractions",
+      });
+      await Cmi5.instance.evaluateObjective("fractions");
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            verb: XAPI.Verbs.PASSED,
+            object: FRACTIONS,
+            result: {
+              score: { scaled: 1, raw: 1, min: 0, max: 1 },
+              success: true,
+            },
+            context: expect.objectContaining({
+              contextActivities: {
+                parent: [
+                  {
+                    objectType: "Activity",
+                    id: DEFAULT_LAUNCH_PARAMETERS.activityId,
+                  },
+                ],
+              },
+            }),
+          }),
+        })
+      );
+      expect(Cmi5.instance.getSatisfiedObjectives()).toEqual([FRACTIONS]);
+      await Cmi5.instance.pass(1);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenLastCalledWith(
+        expectActivityStatement(Cmi5.instance, Cmi5DefinedVerbs.PASSED, {
+          context: expect.objectContaining({
+            contextActivities: expect.objectContaining({
+              parent: [FRACTIONS],
+            }),
+          }),
+        })
+      );
+    });
+
+    it("only credits objectives with answers that were sent", async () => {
+      Cmi5.instance.use((s) =>
+        (s.object as { id: string }).id.endsWith("/question/q1") ? null : s
+      );
+      await Cmi5.instance.interactionTrueFalse({
+        testId: "t",
+        questionId: "q1",
+        answer: true,
+        correctAnswer: true,
+        objective: "fractions",
+      });
+      mockCmi5.mockXapiSendStatement.mockRejectedValueOnce(
+        new Error("Network Error")
+      );
+      await expect(
+        Cmi5.instance.interactionTrueFalse({
+          testId: "t",
+          questionId: "q2",
+          answer: true,
+          correctAnswer: true,
+          objective: "fractions",
+        })
+      ).rejects.toThrow("Network Error");
+      expect(Cmi5.instance.getObjectiveStatus("fractions").score).toBeNull();
+      await expect(
+        Cmi5.instance.evaluateObjective("fractions")
+      ).rejects.toThrow("has no scored interactions");
+    });
+
+    it("sends objective results under strict validation", async () => {
+      Cmi5.instance.enableStrictValidation();
+      await Cmi5.instance.interactionTrueFalse({
+        testId: "t",
+        questionId: "q1",
+        answer: true,
+        correctAnswer: false,
+        objective: "fractions",
+      });
+      await expect(
+        Cmi5.instance.evaluateObjective("fractions")
+      ).resolves.toBeDefined();
+      await expect(
+        Cmi5.instance.passObjective("fractions", 1)
+      ).resolves.toBeDefined();
+      await expect(
+        Cmi5.instance.failObjective("fractions", 0)
+      ).resolves.toBeDefined();
+      expect(Cmi5.instance.getObjectiveStatus("fractions").satisfied).toBe(
+        false
+      );
+    });
+
+    it("satisfies the objective only once its result was sent", async () => {
+      let resolveSend: (value: unknown) => void;
+      mockCmi5.mockXapiSendStatement.mockReturnValueOnce(
+        new Promise((resolve) => (resolveSend = resolve))
+      );
+      const pending = Cmi5.instance.passObjective("fractions");
+      await Promise.resolve();
+      expect(Cmi5.instance.getObjectiveStatus("fractions").satisfied).toBe(
+        null
+      );
+      resolveSend({ data: ["passed-id"] });
+      await pending;
+      expect(Cmi5.instance.getObjectiveStatus("fractions").satisfied).toBe(
+        true
+      );
+    });
+
+    it("does not order objective results against the AU's own", async () => {
+      await Cmi5.instance.fail(0);
+      await expect(
+        Cmi5.instance.passObjective("fractions")
+      ).resolves.toBeDefined();
+      expect(Cmi5.instance.getObjectiveStatus("fractions").satisfied).toBe(
+        true
+      );
+    });
+  });
+
+  describe("assessment", () => {
+    function sentVerbs(): Verb[] {
+      return mockCmi5.mockXapiSendStatement.mock.calls.map(
+        ([{ statement }]) => statement.verb
+      );
+    }
+
+    it("weights answers and passes against the mastery score", async () => {
+      await initialize(mockCmi5);
+      const assessment = Cmi5.instance.createAssessment("t", {
+        weights: { q2: 3 },
+      });
+      await assessment.trueFalse({
+        questionId: "q1",
+        answer: true,
+        correctAnswer: false,
+      });
+      await assessment.choice({
+        questionId: "q2",
+        answerIds: ["a"],
+        correctAnswerIds: ["a"],
+      });
+      await assessment.other({ questionId: "survey", answer: "great" });
+      const score = { scaled: 0.75, raw: 3, min: 0, max: 4 };
+      await expect(assessment.finish()).resolves.toEqual({
+        attempt: 1,
+        score,
+        passed: true,
+        final: true,
+      });
+      expect(sentVerbs()).toEqual([
+        Cmi5DefinedVerbs.INITIALIZED,
+        XAPI.Verbs.ANSWERED,
+        XAPI.Verbs.ANSWERED,
+        XAPI.Verbs.ANSWERED,
+        XAPI.Verbs.SCORED,
+        Cmi5DefinedVerbs.PASSED,
+      ]);
+      expect(mockCmi5.mockXapiSendStatement).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statement: expect.objectContaining({
+            verb: XAPI.Verbs.SCORED,
+            object: expect.objectContaining({
+              id: `${DEFAULT_LAUNCH_PARAMETERS.activityId}/test/t`,
+            }),
+            result: expect.objectContaining({
+              score,
+              success: true,
+              extensions: { [Cmi5ResultExtension.ATTEMPT]: 1 },
+            }),
+          }),
+        })
+      );
+      expect(() => assessment.retake()).toThrow(Cmi5Error);
+    });
+
+    it("allows retakes and only fails on the last attempt", async () => {
+      await initialize(mockCmi5);
+      const assessment = Cmi5.instance.createAssessment("t", {
+        maxAttempts: 2,
+      });
+      await assessment.trueFalse({
+        questionId: "q1",
+        answer: true,
+        correctAnswer: false,
+      });
+      await expect(assessment.finish()).resolves.toEqual(
+        expect.objectContaining({ attempt: 1, passed: false, final: false })
+      );
+      expect(assessment.canRetake).toBe(true);
+      assessment.retake();
+      expect(assessment.getScore()).toEqual({
+        scaled: 0,
+        raw: 0,
+        min: 0,
+        max: 0,
+      });
+      await assessment.trueFalse({
+        questionId: "q1",
+        answer: true,
+        correctAnswer: false,
+      });
+      await expect(assessment.finish()).resolves.toEqual(
+        expect.objectContaining({ attempt: 2, passed: false, final: true })
+      );
+      expect(sentVerbs()).toEqual([
+        Cmi5DefinedVerbs.INITIALIZED,
+        XAPI.Verbs.ANSWERED,
+        XAPI.Verbs.SCORED,
+        XAPI.Verbs.ANSWERED,
+        XAPI.Verbs.SCORED,
+        Cmi5DefinedVerbs.FAILED,
+      ]);
+      expect(() => assessment.retake()).toThrow(Cmi5Error);
+    });
+
+    it("draws questions from a pool and scores unanswered ones as incorrect", async () => {
+      await initialize(mockCmi5);
+      const assessment = Cmi5.instance.createAssessment("t", {
+        partialCredit: true,
+        questionPool: ["q1", "q2", "q3"],
+        questionsPerAttempt: 2,
+        random: () => 0,
+      });
+      expect(assessment.getQuestionIds()).toEqual(["q2", "q3"]);
+      await expect(
+        assessment.trueFalse({ questionId: "q1", answer: true })
+      ).rejects.toThrow(Cmi5Error);
+      await assessment.sequencing({
+        questionId: "q2",
+        answerIds: ["a", "c", "b"],
+        correctAnswerIds: ["a", "b", "c"],
+      });
+      expect(assessment.getScore()).toEqual({
+        scaled: 1 / 6,
+        raw: 1 / 3,
+        min: 0,
+        max: 2,
+      });
+    });
+
+    it("only scores answers that were sent", async () => {
+      await initialize(mockCmi5);
+      const assessment = Cmi5.instance.createAssessment("t");
+      Cmi5.instance.use((s) =>
+        (s.object as { id: string }).id.endsWith("/question/q2") ? null : s
+      );
+      await assessment.trueFalse({
+        questionId: "q1",
+        answer: true,
+        correctAnswer: true,
+      });
+      await assessment.trueFalse({
+        questionId: "q2",
+        answer: true,
+        correctAnswer: false,
+      });
+      mockCmi5.mockXapiSendStatement.mockRejectedValueOnce(
+        new Error("Network Error")
+      );
+      await expect(
+        assessment.trueFalse({
+          questionId: "q3",
+          answer: true,
+          correctAnswer: false,
+        })
+      ).rejects.toThrow("Network Error");
+      expect(assessment.getScore()).toEqual({
+        scaled: 1,
+        raw: 1,
+        min: 0,
+        max: 1,
+      });
+    });
+
+    it("does not send the summary again when finishing is retried", async () => {
+      await initialize(mockCmi5);
+      const assessment = Cmi5.instance.createAssessment("t");
+      await assessment.trueFalse({
+        questionId: "q1",
+        answer: true,
+        correctAnswer: true,
+      });
+      mockCmi5.mockXapiSendStatement
+        .mockResolvedValueOnce({ data: ["scored-id"] })
+        .mockRejectedValueOnce(new Error("Network Error"));
+      await expect(assessment.finish()).rejects.toThrow("Network Error");
+      expect(assessment.isFinished).toBe(false);
+      await expect(
+        assessment.trueFalse({ questionId: "q2", answer: false })
+      ).rejects.toThrow(Cmi5Error);
+      await expect(assessment.finish()).resolves.toEqual(
+        expect.objectContaining({ attempt: 1, passed: true })
+      );
+      expect(sentVerbs()).toEqual([
+        Cmi5DefinedVerbs.INITIALIZED,
+        XAPI.Verbs.ANSWERED,
+        XAPI.Verbs.SCORED,
+        Cmi5DefinedVerbs.PASSED,
+        Cmi5DefinedVerbs.PASSED,
+      ]);
+    });
+
+    it("sends the summary again when finishing is retried after it was vetoed", async () => {
+      await initialize(mockCmi5);
+      const assessment = Cmi5.instance.createAssessment("t");
+      await assessment.trueFalse({
+        questionId: "q1",
+        answer: true,
+        correctAnswer: true,
+      });
+      let vetoSummary = true;
+      Cmi5.instance.use((s) =>
+        vetoSummary && s.verb.id === XAPI.Verbs.SCORED.id ? null : s
+      );
+      mockCmi5.mockXapiSendStatement.mockRejectedValueOnce(
+        new Error("Network Error")
+      );
+      await expect(assessment.finish()).rejects.toThrow("Network Error");
+      vetoSummary = false;
+      await expect(assessment.finish()).resolves.toEqual(
+        expect.objectContaining({ attempt: 1, passed: true })
+      );
+      expect(sentVerbs()).toEqual([
+        Cmi5DefinedVerbs.INITIALIZED,
+        XAPI.Verbs.ANSWERED,
+        Cmi5DefinedVerbs.PASSED,
+        XAPI.Verbs.SCORED,
+        Cmi5DefinedVerbs.PASSED,
+      ]);
+    });
+
+    it("requires a mastery or passing score to finish", async () => {
+      mockCmi5.fakeLaunchData = {
+        ...mockCmi5.fakeLaunchData,
+        masteryScore: undefined,
+      };
+      await initialize(mockCmi5);
+      await expect(
+        Cmi5.instance.createAssessment("t").finish()
+      ).rejects.toBeInstanceOf(Cmi5Error);
+      await expect(
+        Cmi5.instance.createAssessment("t", { passingScore: 0 }).finish()
+      ).resolves.toEqual(expect.objectContaining({ passed: true }));
+    });
+  });
+
+  describe("registry", () => {
+    afterEach(() => Cmi5.registry.disposeAll());
+
+    function launchParameters(registration: string, activityId: string) {
+      return { ...DEFAULT_LAUNCH_PARAMETERS, registration, activityId };
+    }
+
+    it("holds independent instances keyed by registration and activityId", async () => {
+      const a = Cmi5.registry.create(launchParameters("r1", "http://au/1"));
+      const b = Cmi5.registry.create(launchParameters("r1", "http://au/2"));
+      expect(a).not.toBe(b);
+      expect(Cmi5.registry.get("r1", "http://au/1")).toBe(a);
+      expect(Cmi5.registry.get("r1", "http://au/2")).toBe(b);
+      expect(Cmi5.registry.get("r2", "http://au/1")).toBeNull();
+      expect(Cmi5.registry.getAll()).toEqual([a, b]);
+    });
+
+    it("throws when creating a second instance for the same session", async () => {
+      Cmi5.registry.create(launchParameters("r1", "http://au/1"));
+      expect(() =>
+        Cmi5.registry.create(launchParameters("r1", "http://au/1"))
+      ).toThrow(Cmi5Error);
+    });
+
+    it("disposes an instance and detaches its listeners", async () => {
+      const cmi5 = Cmi5.registry.create(launchParameters("r1", "http://au/1"));
+      const listener = jest.fn();
+      cmi5.on("error", listener);
+      expect(Cmi5.registry.dispose("r1", "http://au/1")).toBe(true);
+      expect(Cmi5.registry.get("r1", "http://au/1")).toBeNull();
+      expect(Cmi5.registry.dispose("r1", "http://au/1")).toBe(false);
+      mockCmi5.mockFetch(500);
+      await expect(cmi5.initialize()).rejects.toBeTruthy();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,170 @@
+import { CorrectResponse } from "../../src/interfaces";
+import {
+  formatCorrectResponsesPattern,
+  parseCorrectResponsesPattern,
+} from "../../src/patterns";
+import { Cmi5Error } from "../../src/errors";
+
+describe("correctResponsesPattern", () => {
+  const examples: { pattern: string; response: CorrectResponse }[] = [
+    {
+      pattern: "true",
+      response: { interactionType: "true-false", value: true },
+    },
+    {
+      pattern: "golf[,]tetris",
+      response: { interactionType: "choice", ids: ["golf", "tetris"] },
+    },
+    {
+      pattern: "tim[,]mike[,]ells[,]ben",
+      response: {
+        interactionType: "sequencing",
+        ids: ["tim", "mike", "ells", "ben"],
+      },
+    },
+    {
+      pattern: "{case_matters=true}{order_matters=false}Bob's your uncle",
+      response: {
+        interactionType: "fill-in",
+        caseMatters: true,
+        orderMatters: false,
+        items: [{ value: "Bob's your uncle" }],
+      },
+    },
+    {
+      pattern: "{lang=en}colour[,]{lang=de}Farbe",
+      response: {
+        interactionType: "long-fill-in",
+        items: [
+          { value: "colour", lang: "en" },
+          { value: "Farbe", lang: "de" },
+        ],
+      },
+    },
+    {
+      pattern: "likert_3",
+      response: { interactionType: "likert", id: "likert_3" },
+    },
+    {
+      pattern: "ben[.]3[,]chris[.]2[,]troy[.]4",
+      response: {
+        interactionType: "matching",
+        pairs: [
+          { source: "ben", target: "3" },
+          { source: "chris", target: "2" },
+          { source: "troy", target: "4" },
+        ],
+      },
+    },
+    {
+      pattern: "pong[.]1[:][,]dg[.][:]10[,]lunch[.][,]drink[.]coffee",
+      response: {
+        interactionType: "performance",
+        steps: [
+          { id: "pong", min: 1 },
+          { id: "dg", max: 10 },
+          { id: "lunch" },
+          { id: "drink", exact: "coffee" },
+        ],
+      },
+    },
+    {
+      pattern: "{order_matters=false}a[.]1.5[:]2.5",
+      response: {
+        interactionType: "performance",
+        orderMatters: false,
+        steps: [{ id: "a", min: 1.5, max: 2.5 }],
+      },
+    },
+    {
+      pattern: "",
+      response: { interactionType: "fill-in", items: [] },
+    },
+    {
+      pattern: "{case_matters=false}",
+      response: {
+        interactionType: "long-fill-in",
+        caseMatters: false,
+        items: [],
+      },
+    },
+    {
+      pattern: "4[:]6",
+      response: { interactionType: "numeric", criteria: { min: 4, max: 6 } },
+    },
+    {
+      pattern: "[:]10",
+      response: { interactionType: "numeric", criteria: { max: 10 } },
+    },
+    {
+      pattern: "-2",
+      response: { interactionType: "numeric", criteria: { exact: -2 } },
+    },
+    {
+      pattern: "(a, b) => a + b",
+      response: { interactionType: "other", value: "(a, b) => a + b" },
+    },
+  ];
+
+  examples.forEach(({ pattern, response }) => {
+    it(`parses and formats ${response.interactionType} pattern ${pattern}`, () => {
+      expect(
+        parseCorrectResponsesPattern(response.interactionType, pattern)
+      ).toEqual(response);
+      expect(formatCorrectResponsesPattern(response)).toEqual(pattern);
+    });
+  });
+
+  it("escapes delimiters and leading braces in values", () => {
+    const response: CorrectResponse = {
+      interactionType: "fill-in",
+      items: [{ value: "{not a parameter}" }, { value: "a[,]b\\c" }],
+    };
+    const pattern = formatCorrectResponsesPattern(response);
+    expect(pattern).toEqual("\\{not a parameter}[,]a\\[,]b\\\\c");
+    expect(parseCorrectResponsesPattern("fill-in", pattern)).toEqual(response);
+  });
+
+  it("escapes colons in performance step values", () => {
+    const response: CorrectResponse = {
+      interactionType: "performance",
+      steps: [{ id: "time", exact: "10:30" }],
+    };
+    const pattern = formatCorrectResponsesPattern(response);
+    expect(pattern).toEqual("time[.]10\\:30");
+    expect(parseCorrectResponsesPattern("performance", pattern)).toEqual(
+      response
+    );
+  });
+
+  it("reads a numeric range with a plain colon", () => {
+    expect(parseCorrectResponsesPattern("numeric", "4:6")).toEqual({
+      interactionType: "numeric",
+      criteria: { min: 4, max: 6 },
+    });
+  });
+
+  it("reads a performance step range with a plain colon", () => {
+    expect(
+      parseCorrectResponsesPattern("performance", "pong[.]1:[,]dg[.]2:10")
+    ).toEqual({
+      interactionType: "performance",
+      steps: [
+        { id: "pong", min: 1 },
+        { id: "dg", min: 2, max: 10 },
+      ],
+    });
+  });
+
+  it("throws for patterns that do not match the interaction type", () => {
+    expect(() => parseCorrectResponsesPattern("true-false", "yes")).toThrow(
+      Cmi5Error
+    );
+    expect(() => parseCorrectResponsesPattern("numeric", "a[:]b")).toThrow(
+      Cmi5Error
+    );
+    expect(() =>
+      parseCorrectResponsesPattern("fill-in", "{case_matters=maybe}x")
+    ).toThrow(Cmi5Error);
+  });
+});
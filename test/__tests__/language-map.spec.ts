@@ -0,0 +1,81 @@
+import { Cmi5Error } from "../../src/errors";
+import {
+  languageMapFromDictionary,
+  parseLanguagePreference,
+  resolveLanguageMap,
+  toLanguageMap,
+} from "../../src/language";
+
+describe("parseLanguagePreference", () => {
+  it("splits the preference into ordered language tags", () => {
+    expect(parseLanguagePreference("fr-CA, en-US;q=0.5,*")).toEqual([
+      "fr-CA",
+      "en-US",
+    ]);
+    expect(parseLanguagePreference(undefined)).toEqual([]);
+  });
+});
+
+describe("resolveLanguageMap", () => {
+  const languageMap = {
+    "en-US": "Color",
+    "en-GB": "Colour",
+    "fr-FR": "Couleur",
+    und: "Colour (undetermined)",
+  };
+
+  it("prefers an exact match in preference order, ignoring case", () => {
+    expect(resolveLanguageMap(languageMap, ["de", "EN-gb"])).toEqual("Colour");
+    expect(resolveLanguageMap(languageMap, "fr-FR,en-US")).toEqual("Couleur");
+  });
+
+  it("falls back by truncating subtags and then to the same language", () => {
+    expect(resolveLanguageMap({ en: "Color" }, ["en-US-x-test"])).toEqual(
+      "Color"
+    );
+    expect(resolveLanguageMap(languageMap, ["fr-CA", "en-US"])).toEqual(
+      "Couleur"
+    );
+  });
+
+  it("falls back to the undetermined language and then to any entry", () => {
+    expect(resolveLanguageMap(languageMap, ["de"])).toEqual(
+      "Colour (undetermined)"
+    );
+    expect(resolveLanguageMap({ "de-DE": "Farbe" }, ["ja"])).toEqual("Farbe");
+    expect(resolveLanguageMap({}, ["en"])).toBeUndefined();
+  });
+});
+
+describe("toLanguageMap", () => {
+  it("keys plain strings by the given language", () => {
+    expect(toLanguageMap("Color", "en-US")).toEqual({ "en-US": "Color" });
+    expect(toLanguageMap("Color")).toEqual({ und: "Color" });
+    expect(toLanguageMap({ fr: "Couleur" }, "en-US")).toEqual({
+      fr: "Couleur",
+    });
+  });
+});
+
+describe("languageMapFromDictionary", () => {
+  const dictionary = {
+    "en-US": { q1: { name: "Colors" }, "q1.hint": "Pick one" },
+    "fr-FR": { q1: { name: "Couleurs" } },
+  };
+
+  it("collects a message from every language that has it", () => {
+    expect(languageMapFromDictionary(dictionary, "q1.name")).toEqual({
+      "en-US": "Colors",
+      "fr-FR": "Couleurs",
+    });
+    expect(languageMapFromDictionary(dictionary, "q1.hint")).toEqual({
+      "en-US": "Pick one",
+    });
+  });
+
+  it("throws when no language has the message", () => {
+    expect(() => languageMapFromDictionary(dictionary, "q2.name")).toThrow(
+      Cmi5Error
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { Statement } from "@xapi/xapi";
+import { Cmi5Error } from "../../src/errors";
+import { ObjectiveRegistry } from "../../src/objectives";
+
+const OBJECTIVE_ID = "http://example.com/objectives/fractions";
+
+function answered(
+  questionId: string,
+  result: Statement["result"],
+  parentIds: string[] = [OBJECTIVE_ID]
+): Statement {
+  return {
+    actor: { mbox: "mailto:test@example.com" },
+    verb: { id: "http://adlnet.gov/expapi/verbs/answered" },
+    object: {
+      objectType: "Activity",
+      id: `http://example.com/au/test/t/question/${questionId}`,
+    },
+    result,
+    context: {
+      contextActivities: {
+        parent: parentIds.map((id) => ({ objectType: "Activity", id })),
+      },
+    },
+  };
+}
+
+describe("ObjectiveRegistry", () => {
+  let registry: ObjectiveRegistry;
+
+  beforeEach(() => {
+    registry = new ObjectiveRegistry();
+    registry.register({
+      fractions: {
+        id: OBJECTIVE_ID,
+        name: { "en-US": "Fractions" },
+        masteryScore: 0.5,
+      },
+    });
+  });
+
+  it("builds objective activities from the definitions", () => {
+    expect(registry.getActivities()).toEqual({
+      fractions: {
+        objectType: "Activity",
+        id: OBJECTIVE_ID,
+        definition: {
+          type: "http://adlnet.gov/expapi/activities/objective",
+          name: { "en-US": "Fractions" },
+        },
+      },
+    });
+    expect(registry.getMasteryScore("fractions")).toEqual(0.5);
+  });
+
+  it("aggregates the latest credit of each interaction referencing the objective", () => {
+    expect(registry.getScore("fractions")).toBeNull();
+    registry.record(answered("q1", { success: false }));
+    registry.record(answered("q1", { success: true }));
+    registry.record(answered("q2", { score: { scaled: 0.5 } }));
+    registry.record(answered("q3", { response: "unscored" }));
+    registry.record(
+      answered("q4", { success: true }, ["http://example.com/other"])
+    );
+    expect(registry.getScore("fractions")).toEqual({
+      scaled: 0.75,
+      raw: 1.5,
+      min: 0,
+      max: 2,
+    });
+  });
+
+  it("tracks which objectives are satisfied", () => {
+    registry.setSatisfied("fractions", true);
+    expect(registry.getSatisfied()).toEqual([
+      registry.getActivity("fractions"),
+    ]);
+    expect(registry.getStatus("fractions")).toEqual({
+      key: "fractions",
+      objective: registry.getActivity("fractions"),
+      score: null,
+      satisfied: true,
+    });
+  });
+
+  it("rejects unknown keys and invalid mastery scores", () => {
+    expect(() => registry.getActivity("decimals")).toThrow(Cmi5Error);
+    expect(() =>
+      registry.register({ decimals: { id: "http://x", masteryScore: 2 } })
+    ).toThrow(Cmi5Error);
+  });
+});
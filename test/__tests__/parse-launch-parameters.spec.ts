@@ -0,0 +1,41 @@
+import { parseLaunchParameters } from "../../src/launch";
+
+describe("parseLaunchParameters", () => {
+  const PARAMS = {
+    endpoint: "http://example.com/lrs",
+    fetch: "http://example.com/fetch",
+    actor: JSON.stringify({ account: { homePage: "http://x", name: "a" } }),
+    activityId: "http://example.com/au",
+    registration: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa",
+  };
+
+  it("parses a launch URL, ignoring its hash", () => {
+    const url = `http://example.com/au/index.html?${new URLSearchParams(
+      PARAMS
+    )}#page-2`;
+    expect(parseLaunchParameters(url)).toEqual({
+      ...PARAMS,
+      actor: { account: { homePage: "http://x", name: "a" } },
+    });
+  });
+
+  it("unwraps TinCan style single item arrays in the actor", () => {
+    const { actor } = parseLaunchParameters({
+      ...PARAMS,
+      actor: JSON.stringify({ name: ["A"], mbox: ["mailto:a@example.com"] }),
+    });
+    expect(actor).toEqual({ name: "A", mbox: "mailto:a@example.com" });
+  });
+
+  [
+    { name: "a missing registration", params: { registration: "" } },
+    { name: "a relative endpoint", params: { endpoint: "/lrs" } },
+    { name: "an actor without an identifier", params: { actor: "{}" } },
+  ].forEach((ex) => {
+    it(`throws a Cmi5LaunchParameterError for ${ex.name}`, () => {
+      expect(() => parseLaunchParameters({ ...PARAMS, ...ex.params })).toThrow(
+        expect.objectContaining({ name: "Cmi5LaunchParameterError" })
+      );
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { AxiosResponse } from "axios";
+import { Cmi5Error } from "../../src/errors";
+import { ProgressTracker } from "../../src/progress";
+
+function fakeResponse(percent: number): AxiosResponse<string[]> {
+  return { data: [`progress-${percent}`], status: 200 } as AxiosResponse<
+    string[]
+  >;
+}
+
+describe("ProgressTracker", () => {
+  let send: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    send = jest.fn(async (percent: number) => fakeResponse(percent));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function sentPercents(): number[] {
+    return send.mock.calls.map(([percent]) => percent);
+  }
+
+  it("rounds and sends the first report immediately", async () => {
+    const tracker = new ProgressTracker(send);
+    await expect(tracker.report(12.6)).resolves.toEqual(fakeResponse(13));
+    expect(sentPercents()).toEqual([13]);
+  });
+
+  [-1, 100.1, NaN, "50" as unknown as number].forEach((percent) => {
+    it(`rejects invalid progress (${percent})`, async () => {
+      const tracker = new ProgressTracker(send);
+      await expect(tracker.report(percent)).rejects.toThrow(Cmi5Error);
+    });
+  });
+
+  it("suppresses regressions and duplicates", async () => {
+    const tracker = new ProgressTracker(send, { minInterval: 0 });
+    await tracker.report(50);
+    await expect(tracker.report(50.4)).resolves.toBeNull();
+    await expect(tracker.report(20)).resolves.toBeNull();
+    expect(sentPercents()).toEqual([50]);
+    expect(tracker.percent).toEqual(50);
+  });
+
+  it("holds back changes smaller than minDelta until flushed", async () => {
+    const tracker = new ProgressTracker(send, { minInterval: 0, minDelta: 10 });
+    await tracker.report(10);
+    await expect(tracker.report(15)).resolves.toBeNull();
+    expect(tracker.percent).toEqual(15);
+    expect(tracker.sentPercent).toEqual(10);
+    await tracker.report(25);
+    await tracker.report(30);
+    await tracker.flush();
+    expect(sentPercents()).toEqual([10, 25, 30]);
+  });
+
+  it("always sends 100 regardless of minDelta", async () => {
+    const tracker = new ProgressTracker(send, { minInterval: 0, minDelta: 10 });
+    await tracker.report(95);
+    await tracker.report(100);
+    expect(sentPercents()).toEqual([95, 100]);
+  });
+
+  it("sends only the latest value once minInterval has elapsed", async () => {
+    const tracker = new ProgressTracker(send, { minInterval: 1000 });
+    await tracker.report(10);
+    await expect(tracker.report(20)).resolves.toBeNull();
+    await tracker.report(30);
+    expect(sentPercents()).toEqual([10]);
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+    expect(sentPercents()).toEqual([10, 30]);
+    expect(tracker.hasPending).toBe(false);
+  });
+
+  it("allows a percent to be sent again after sending it failed", async () => {
+    send.mockRejectedValueOnce(new Error("Network Error"));
+    const tracker = new ProgressTracker(send, { minInterval: 0 });
+    await expect(tracker.report(40)).rejects.toThrow("Network Error");
+    await tracker.report(40);
+    expect(sentPercents()).toEqual([40, 40]);
+  });
+
+  it("computes percent from completed sections", async () => {
+    const tracker = new ProgressTracker(send, {
+      minInterval: 0,
+      sections: ["intro", "lesson", "quiz"],
+    });
+    await tracker.completeSection("intro");
+    await tracker.completeSection("intro");
+    await tracker.completeSection("quiz");
+    expect(sentPercents()).toEqual([33, 67]);
+    expect(tracker.getCompletedSections()).toEqual(["intro", "quiz"]);
+    await expect(tracker.completeSection("outro")).rejects.toThrow(Cmi5Error);
+  });
+});
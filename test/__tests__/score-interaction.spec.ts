@@ -0,0 +1,119 @@
+import {
+  scoreChoice,
+  scoreExact,
+  scoreFillIn,
+  scoreMatching,
+  scoreNumeric,
+  scorePerformance,
+  scoreSequencing,
+  scoreTrueFalse,
+} from "../../src/scoring";
+
+describe("scoreInteraction", () => {
+  it("scores true-false and single valued responses", () => {
+    expect(scoreTrueFalse(true, true)).toEqual({
+      success: true,
+      raw: 1,
+      max: 1,
+    });
+    expect(scoreTrueFalse(false, true)).toEqual({
+      success: false,
+      raw: 0,
+      max: 1,
+    });
+    expect(scoreExact("3", "3").success).toBe(true);
+  });
+
+  describe("scoreChoice", () => {
+    it("compares choices as sets", () => {
+      expect(scoreChoice(["b", "a"], ["a", "b"])).toEqual({
+        success: true,
+        raw: 2,
+        max: 2,
+      });
+    });
+
+    it("deducts incorrect choices from partial credit", () => {
+      expect(scoreChoice(["a", "c"], ["a", "b"])).toEqual({
+        success: false,
+        raw: 0,
+        max: 2,
+      });
+      expect(scoreChoice(["a"], ["a", "b"])).toEqual({
+        success: false,
+        raw: 1,
+        max: 2,
+      });
+    });
+  });
+
+  it("scores sequencing by position", () => {
+    expect(scoreSequencing(["a", "b", "c"], ["a", "b", "c"]).success).toBe(
+      true
+    );
+    expect(scoreSequencing(["a", "c", "b"], ["a", "b", "c"])).toEqual({
+      success: false,
+      raw: 1,
+      max: 3,
+    });
+  });
+
+  describe("scoreFillIn", () => {
+    it("ignores case and respects order by default", () => {
+      expect(scoreFillIn(["Paris", "ROME"], ["paris", "rome"]).success).toBe(
+        true
+      );
+      expect(scoreFillIn(["rome", "paris"], ["paris", "rome"])).toEqual({
+        success: false,
+        raw: 0,
+        max: 2,
+      });
+    });
+
+    it("applies case_matters and order_matters", () => {
+      expect(
+        scoreFillIn(["Paris"], ["paris"], { caseMatters: true }).success
+      ).toBe(false);
+      expect(
+        scoreFillIn(["rome", "paris"], ["paris", "rome"], {
+          orderMatters: false,
+        }).success
+      ).toBe(true);
+      expect(
+        scoreFillIn(["rome", "rome"], ["paris", "rome"], {
+          orderMatters: false,
+        })
+      ).toEqual({ success: false, raw: 1, max: 2 });
+    });
+  });
+
+  it("scores matching pairs regardless of order", () => {
+    expect(scoreMatching({ b: "2", a: "1" }, { a: "1", b: "2" }).success).toBe(
+      true
+    );
+    expect(scoreMatching({ a: "1", b: "3" }, { a: "1", b: "2" })).toEqual({
+      success: false,
+      raw: 1,
+      max: 2,
+    });
+  });
+
+  it("scores numeric exact values and ranges", () => {
+    expect(scoreNumeric(4, { exact: 4 }).success).toBe(true);
+    expect(scoreNumeric(4.1, { exact: 4 }).success).toBe(false);
+    expect(scoreNumeric(4, { min: 3, max: 5 }).success).toBe(true);
+    expect(scoreNumeric(6, { min: 3, max: 5 }).success).toBe(false);
+    expect(scoreNumeric(100, { min: 3 }).success).toBe(true);
+  });
+
+  it("scores performance steps against their criteria", () => {
+    expect(
+      scorePerformance({ pump: 5, wait: 30, seal: 1 }, [
+        { id: "pump", exact: 5 },
+        { id: "wait", min: 20, max: 40 },
+        { id: "seal" },
+        { id: "test", exact: 1 },
+      ])
+    ).toEqual({ success: false, raw: 3, max: 4 });
+  });
+});
@@ -0,0 +1,149 @@
+import XAPI from "@xapi/xapi";
+import { Cmi5ConcurrencyError, Cmi5LrsError } from "../../src/errors";
+import { StateDocument } from "../../src/state";
+import { sha1 } from "../../src/state/sha1";
+
+const PARAMS = {
+  agent: { mbox: "mailto:test@example.com" },
+  activityId: "http://example.com/activity",
+  registration: "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa",
+  stateId: "test.state",
+};
+
+function fakeXapi() {
+  return {
+    getState: jest.fn(),
+    setState: jest.fn(),
+  };
+}
+
+function document(xapi: ReturnType<typeof fakeXapi>) {
+  return new StateDocument<{ page: number }>(xapi as unknown as XAPI, PARAMS);
+}
+
+describe("StateDocument", () => {
+  it("returns null when the document does not exist and then creates it with If-None-Match", async () => {
+    const xapi = fakeXapi();
+    xapi.getState.mockRejectedValue({ response: { status: 404 } });
+    xapi.setState.mockResolvedValue({ headers: { etag: "etag-1" } });
+    const doc = document(xapi);
+    expect(await doc.get()).toBeNull();
+    await doc.set({ page: 1 });
+    expect(xapi.setState).toHaveBeenCalledWith({
+      ...PARAMS,
+      state: JSON.stringify({ page: 1 }),
+      contentType: "application/json",
+      etag: "*",
+      matchHeader: "If-None-Match",
+    });
+    await doc.set({ page: 2 });
+    expect(xapi.setState).toHaveBeenLastCalledWith(
+      expect.objectContaining({ etag: "etag-1", matchHeader: "If-Match" })
+    );
+  });
+
+  it("creates the document without reading it first", async () => {
+    const xapi = fakeXapi();
+    xapi.setState.mockResolvedValue({ headers: { etag: "etag-1" } });
+    await document(xapi).set({ page: 2 });
+    expect(xapi.getState).not.toHaveBeenCalled();
+    expect(xapi.setState).toHaveBeenCalledWith(
+      expect.objectContaining({ etag: "*", matchHeader: "If-None-Match" })
+    );
+  });
+
+  it("reads and replaces a document that exists when writing without a prior read", async () => {
+    const xapi = fakeXapi();
+    xapi.getState.mockResolvedValue({
+      data: { page: 1 },
+      headers: { etag: "etag-a" },
+    });
+    xapi.setState
+      .mockRejectedValueOnce({ response: { status: 412 } })
+      .mockResolvedValue({ headers: { etag: "etag-b" } });
+    await document(xapi).set({ page: 2 });
+    expect(xapi.getState).toHaveBeenCalledTimes(1);
+    expect(xapi.setState).toHaveBeenCalledTimes(2);
+    expect(xapi.setState).toHaveBeenLastCalledWith(
+      expect.objectContaining({ etag: "etag-a", matchHeader: "If-Match" })
+    );
+  });
+
+  it("replaces the document once it has been read", async () => {
+    const xapi = fakeXapi();
+    xapi.getState.mockResolvedValue({
+      data: { page: 1 },
+      headers: { etag: "etag-a" },
+    });
+    xapi.setState.mockResolvedValue({ headers: { etag: "etag-b" } });
+    const doc = document(xapi);
+    await doc.get();
+    await doc.set({ page: 2 });
+    expect(xapi.setState).toHaveBeenLastCalledWith(
+      expect.objectContaining({ etag: "etag-a", matchHeader: "If-Match" })
+    );
+  });
+
+  it("computes the ETag of the written document when the LRS does not return one", async () => {
+    const xapi = fakeXapi();
+    xapi.getState.mockRejectedValue({ response: { status: 404 } });
+    xapi.setState.mockResolvedValue({ headers: {} });
+    const doc = document(xapi);
+    await doc.set({ page: 2 });
+    await doc.set({ page: 3 });
+    expect(xapi.getState).not.toHaveBeenCalled();
+    expect(xapi.setState).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        etag: `"${sha1(JSON.stringify({ page: 2 }))}"`,
+        matchHeader: "If-Match",
+      })
+    );
+  });
+
+  it("throws a Cmi5ConcurrencyError when the document was changed elsewhere", async () => {
+    const xapi = fakeXapi();
+    xapi.getState.mockResolvedValue({ data: {}, headers: { etag: "etag-a" } });
+    xapi.setState.mockRejectedValue({ response: { status: 412 } });
+    const doc = document(xapi);
+    await doc.get();
+    await expect(doc.set({ page: 2 })).rejects.toThrow(Cmi5ConcurrencyError);
+    await expect(doc.set({ page: 3 })).rejects.toThrow(Cmi5ConcurrencyError);
+    expect(xapi.getState).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws a Cmi5LrsError when reading fails", async () => {
+    const xapi = fakeXapi();
+    xapi.getState.mockRejectedValue({ response: { status: 500 } });
+    await expect(document(xapi).get()).rejects.toThrow(
+      new Cmi5LrsError("Unable to get test.state (HTTP 500)")
+    );
+  });
+
+  it("debounces saves into a single write of the latest value", async () => {
+    jest.useFakeTimers();
+    try {
+      const xapi = fakeXapi();
+      xapi.getState.mockRejectedValue({ response: { status: 404 } });
+      xapi.setState.mockResolvedValue({ headers: { etag: "etag-1" } });
+      const doc = document(xapi);
+      const first = doc.save({ page: 1 }, 500);
+      const second = doc.save({ page: 2 }, 500);
+      expect(xapi.setState).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(500);
+      await Promise.all([first, second]);
+      expect(xapi.setState).toHaveBeenCalledTimes(1);
+      expect(xapi.setState).toHaveBeenCalledWith(
+        expect.objectContaining({ state: JSON.stringify({ page: 2 }) })
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("sha1", () => {
+  it("digests the UTF-8 encoding of the text", () => {
+    expect(sha1("")).toEqual("da39a3ee5e6b4b0d3255bfef95601890afd80709");
+    expect(sha1("héllo ✓")).toEqual("b7c2a1aa52961195ac19331417a20a8b4f202ddb");
+  });
+});
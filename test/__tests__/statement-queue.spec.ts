@@ -0,0 +1,265 @@
+import { Statement } from "@xapi/xapi";
+import { AxiosResponse } from "axios";
+import {
+  IndexedDBQueueStorage,
+  LocalStorageQueueStorage,
+  MemoryQueueStorage,
+  StatementQueue,
+} from "../../src/queue";
+
+function fakeStatement(id?: string): Statement {
+  return {
+    ...(id ? { id } : {}),
+    actor: { mbox: "mailto:test@example.com" },
+    verb: { id: "http://adlnet.gov/expapi/verbs/experienced" },
+    object: { objectType: "Activity", id: "http://example.com/activity" },
+    timestamp: "2024-01-01T00:00:00.000Z",
+  };
+}
+
+function fakeResponse(
+  statement: Statement,
+  status = 200
+): AxiosResponse<string[]> {
+  return { data: [statement.id], status } as AxiosResponse<string[]>;
+}
+
+function fakeError(status?: number) {
+  return status ? { response: { status } } : new Error("Network Error");
+}
+
+// Just enough of IndexedDB for one object store with out-of-line keys, answering asynchronously
+function fakeIndexedDB() {
+  const databases = new Map<string, Map<string, Map<IDBValidKey, unknown>>>();
+  function request<T>(run: () => T, onBeforeSuccess?: (r) => void) {
+    const req = {
+      result: undefined as T,
+      error: null,
+      onsuccess: null,
+      onerror: null,
+      onupgradeneeded: null,
+    };
+    setTimeout(() => {
+      req.result = run();
+      onBeforeSuccess?.(req);
+      req.onsuccess?.();
+    });
+    return req;
+  }
+  function database(stores: Map<string, Map<IDBValidKey, unknown>>) {
+    return {
+      createObjectStore: (name: string) => stores.set(name, new Map()),
+      transaction: (name: string) => ({
+        objectStore: () => {
+          const store = stores.get(name);
+          return {
+            get: (key: IDBValidKey) => request(() => store.get(key)),
+            put: (value: unknown, key: IDBValidKey) =>
+              request(() => {
+                store.set(key, JSON.parse(JSON.stringify(value)));
+                return key;
+              }),
+            delete: (key: IDBValidKey) =>
+              request(() => {
+                store.delete(key);
+              }),
+          };
+        },
+      }),
+    };
+  }
+  return {
+    databases,
+    factory: {
+      open: (name: string) => {
+        const isNew = !databases.has(name);
+        if (isNew) databases.set(name, new Map());
+        return request(
+          () => database(databases.get(name)),
+          (req) => {
+            if (isNew) req.onupgradeneeded?.();
+          }
+        );
+      },
+    } as unknown as IDBFactory,
+  };
+}
+
+describe("StatementQueue", () => {
+  it("sends queued statements in order with their original ids and timestamps", async () => {
+    const sent: Statement[] = [];
+    const queue = new StatementQueue(async (s) => {
+      sent.push(s);
+      return fakeResponse(s);
+    });
+    await Promise.all([
+      queue.enqueue(fakeStatement("a")),
+      queue.enqueue(fakeStatement("b")),
+    ]);
+    expect(sent).toEqual([fakeStatement("a"), fakeStatement("b")]);
+    expect(queue.getStatus()).toEqual({
+      pending: 0,
+      isFlushing: false,
+      lastError: null,
+    });
+  });
+
+  it("stamps statements without a timestamp when they are queued", async () => {
+    const send = jest.fn(async (s: Statement) => fakeResponse(s));
+    const queue = new StatementQueue(send);
+    const { timestamp, ...statement } = fakeStatement("a");
+    expect(timestamp).toBeDefined();
+    const before = new Date().toISOString();
+    await queue.enqueue(statement);
+    expect(send.mock.calls[0][0].timestamp >= before).toBe(true);
+  });
+
+  it("assigns an id to statements without one", async () => {
+    const send = jest.fn(async (s: Statement) => fakeResponse(s));
+    const queue = new StatementQueue(send);
+    const response = await queue.enqueue(fakeStatement());
+    expect(response.data[0]).toEqual(expect.any(String));
+    expect(send.mock.calls[0][0].id).toEqual(response.data[0]);
+  });
+
+  it("retries network and server errors with backoff until delivered", async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(fakeError())
+      .mockRejectedValueOnce(fakeError(503))
+      .mockImplementation(async (s: Statement) => fakeResponse(s));
+    const queue = new StatementQueue(send, { initialRetryDelay: 1 });
+    const response = await queue.enqueue(fakeStatement("a"));
+    expect(response.data).toEqual(["a"]);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(queue.getStatus().lastError).toEqual(fakeError(503));
+  });
+
+  it("treats a 409 duplicate statement id as delivered", async () => {
+    const send = jest.fn().mockRejectedValue(fakeError(409));
+    const queue = new StatementQueue(send);
+    const response = await queue.enqueue(fakeStatement("a"));
+    expect(response.data).toEqual(["a"]);
+    expect(queue.getStatus().pending).toEqual(0);
+  });
+
+  it("rejects and drops statements the LRS refuses", async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(fakeError(400))
+      .mockImplementation(async (s: Statement) => fakeResponse(s));
+    const queue = new StatementQueue(send);
+    const rejected = queue.enqueue(fakeStatement("a"));
+    const delivered = queue.enqueue(fakeStatement("b"));
+    await expect(rejected).rejects.toEqual(fakeError(400));
+    await expect(delivered).resolves.toEqual(fakeResponse(fakeStatement("b")));
+  });
+
+  it("restores and flushes statements persisted by a previous page", async () => {
+    const storage = new MemoryQueueStorage();
+    await storage.save([
+      {
+        statement: fakeStatement("a"),
+        attempts: 2,
+        enqueuedAt: "2024-01-01T00:00:00.000Z",
+      },
+    ]);
+    const send = jest.fn(async (s: Statement) => fakeResponse(s));
+    const queue = new StatementQueue(send, { storage });
+    await queue.restore();
+    expect(queue.getStatus().pending).toEqual(1);
+    await queue.flush();
+    expect(send).toHaveBeenCalledWith(fakeStatement("a"));
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it("takes over the statements of a previous queue without sending them twice", async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(fakeError())
+      .mockImplementation(async (s: Statement) => fakeResponse(s));
+    const previous = new StatementQueue(send, { initialRetryDelay: 60000 });
+    const delivered = previous.enqueue(fakeStatement("a"));
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(send).toHaveBeenCalledTimes(1);
+    const queue = new StatementQueue(send);
+    await queue.takeOver(previous);
+    expect(previous.getPending()).toEqual([]);
+    await queue.flush();
+    await expect(delivered).resolves.toEqual(fakeResponse(fakeStatement("a")));
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  describe("IndexedDBQueueStorage", () => {
+    const items = [
+      {
+        statement: fakeStatement("a"),
+        attempts: 0,
+        enqueuedAt: "2024-01-01T00:00:00.000Z",
+      },
+    ];
+
+    it("loads nothing from a new database", async () => {
+      const { factory } = fakeIndexedDB();
+      expect(
+        await new IndexedDBQueueStorage("test.queue", "cmi5", factory).load()
+      ).toEqual([]);
+    });
+
+    it("persists pending statements under the given key across reloads", async () => {
+      const { databases, factory } = fakeIndexedDB();
+      await new IndexedDBQueueStorage("test.queue", "cmi5", factory).save(
+        items
+      );
+      const reloaded = new IndexedDBQueueStorage("test.queue", "cmi5", factory);
+      expect(await reloaded.load()).toEqual(items);
+      expect(
+        await new IndexedDBQueueStorage("other.queue", "cmi5", factory).load()
+      ).toEqual([]);
+      await reloaded.save([]);
+      expect(databases.get("cmi5").get("statementQueue").size).toEqual(0);
+      expect(await reloaded.load()).toEqual([]);
+    });
+
+    it("restores a queue persisted by a previous page", async () => {
+      const { factory } = fakeIndexedDB();
+      await new IndexedDBQueueStorage("test.queue", "cmi5", factory).save(
+        items
+      );
+      const send = jest.fn(async (s: Statement) => fakeResponse(s));
+      const queue = new StatementQueue(send, {
+        storage: new IndexedDBQueueStorage("test.queue", "cmi5", factory),
+      });
+      await queue.restore();
+      await queue.flush();
+      expect(send).toHaveBeenCalledWith(fakeStatement("a"));
+      expect(
+        await new IndexedDBQueueStorage("test.queue", "cmi5", factory).load()
+      ).toEqual([]);
+    });
+  });
+
+  describe("LocalStorageQueueStorage", () => {
+    afterEach(() => window.localStorage.clear());
+
+    it("persists pending statements under the given key", async () => {
+      const storage = new LocalStorageQueueStorage("test.queue");
+      const items = [
+        {
+          statement: fakeStatement("a"),
+          attempts: 0,
+          enqueuedAt: "2024-01-01T00:00:00.000Z",
+        },
+      ];
+      await storage.save(items);
+      expect(JSON.parse(window.localStorage.getItem("test.queue"))).toEqual(
+        items
+      );
+      expect(await new LocalStorageQueueStorage("test.queue").load()).toEqual(
+        items
+      );
+      await storage.save([]);
+      expect(window.localStorage.getItem("test.queue")).toBeNull();
+    });
+  });
+});
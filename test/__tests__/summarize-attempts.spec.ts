@@ -0,0 +1,112 @@
+import { Statement } from "@xapi/xapi";
+import { randomUUID } from "node:crypto";
+import { LaunchContext } from "../../src/interfaces";
+import {
+  Cmi5ContextExtension,
+  Cmi5DefinedVerbs,
+  Cmi5LmsVerbs,
+  Cmi5ResultExtension,
+} from "../../src/constants";
+import {
+  Cmi5CompleteStatement,
+  Cmi5DefinedStatement,
+  Cmi5FailStatement,
+  Cmi5PassStatement,
+  Cmi5ProgressStatement,
+} from "../../src/Cmi5Statements";
+import { summarizeAttempts } from "../../src/summary";
+
+describe("summarizeAttempts", () => {
+  const ctx: LaunchContext = {
+    initializedDate: new Date(),
+    launchParameters: {
+      activityId: randomUUID(),
+      actor: { mbox: "mailto:test@example.com" },
+      endpoint: "http://fake-lrs.example.com",
+      fetch: "http://fake-fetch.lms.example.com",
+      registration: randomUUID(),
+    },
+    launchData: {
+      contextTemplate: {
+        extensions: { [Cmi5ContextExtension.SESSION_ID]: "current" },
+      },
+      launchMode: "Normal",
+      moveOn: "CompletedAndPassed",
+    },
+  };
+
+  const initialized = () =>
+    Cmi5DefinedStatement(ctx, { verb: Cmi5DefinedVerbs.INITIALIZED });
+
+  function inSession(
+    sessionId: string,
+    minute: number,
+    statement: Statement
+  ): Statement {
+    return {
+      ...statement,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+      context: {
+        ...statement.context,
+        extensions: {
+          ...statement.context.extensions,
+          [Cmi5ContextExtension.SESSION_ID]: sessionId,
+        },
+      },
+    };
+  }
+
+  it("summarises an AU with no statements", () => {
+    expect(summarizeAttempts(ctx, [])).toEqual({
+      completed: false,
+      passed: false,
+      failed: false,
+      bestScore: null,
+      waived: false,
+      satisfied: false,
+      priorSessions: 0,
+      lastSessionProgress: null,
+    });
+  });
+
+  it("summarises prior sessions, best score and moveOn satisfaction", () => {
+    const summary = summarizeAttempts(ctx, [
+      inSession("b", 10, initialized()),
+      inSession("b", 11, Cmi5ProgressStatement(ctx, 30)),
+      inSession("b", 12, Cmi5ProgressStatement(ctx, 60)),
+      inSession("b", 13, Cmi5PassStatement(ctx, 0.8)),
+      inSession("b", 14, Cmi5CompleteStatement(ctx)),
+      inSession("a", 1, initialized()),
+      inSession("a", 2, Cmi5ProgressStatement(ctx, 90)),
+      inSession("a", 3, Cmi5FailStatement(ctx, 0.4)),
+      inSession("current", 20, initialized()),
+    ]);
+    expect(summary).toEqual({
+      completed: true,
+      passed: true,
+      failed: true,
+      bestScore: { scaled: 0.8 },
+      waived: false,
+      satisfied: true,
+      priorSessions: 2,
+      lastSessionProgress: 60,
+    });
+  });
+
+  it("reports an AU waived by the LMS as satisfied", () => {
+    const waived: Statement = {
+      ...Cmi5CompleteStatement(ctx),
+      verb: Cmi5LmsVerbs.WAIVED,
+    };
+    expect(summarizeAttempts(ctx, [waived])).toEqual(
+      expect.objectContaining({ waived: true, satisfied: true })
+    );
+  });
+
+  it("ignores statements about other activities", () => {
+    const statement = Cmi5ProgressStatement(ctx, 50);
+    statement.object = { objectType: "Activity", id: "http://example.com/x" };
+    statement.result.extensions[Cmi5ResultExtension.PROGRESS] = 50;
+    expect(summarizeAttempts(ctx, [statement]).lastSessionProgress).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import XAPI, { Statement } from "@xapi/xapi";
+import { randomUUID } from "node:crypto";
+import {
+  LaunchContext,
+  LaunchData,
+  LaunchParameters,
+} from "../../src/interfaces";
+import {
+  Cmi5ContextActivity,
+  Cmi5ResultExtension,
+  Cmi5ValidationRule,
+} from "../../src/constants";
+import {
+  Cmi5CompleteStatement,
+  Cmi5FailStatement,
+  Cmi5InteractionTrueFalseStatement,
+  Cmi5ObjectiveStatement,
+  Cmi5PassStatement,
+  Cmi5ProgressStatement,
+  Cmi5TerminateStatement,
+} from "../../src/Cmi5Statements";
+import { validateCmi5Statement } from "../../src/validation";
+
+describe("validateCmi5Statement", () => {
+  const LAUNCH_PARAMETERS: LaunchParameters = {
+    activityId: randomUUID(),
+    actor: { mbox: "mailto:test@example.com" },
+    endpoint: "http://fake-lrs.example.com",
+    fetch: "http://fake-fetch.lms.example.com",
+    registration: randomUUID(),
+  };
+  const LAUNCH_DATA: LaunchData = {
+    contextTemplate: {},
+    launchMode: "Normal",
+    moveOn: "CompletedAndPassed",
+    masteryScore: 0.5,
+  };
+  const ctx: LaunchContext = {
+    initializedDate: new Date(Date.now() - 60000),
+    launchParameters: LAUNCH_PARAMETERS,
+    launchData: LAUNCH_DATA,
+  };
+
+  function rules(statement: Statement): string[] {
+    return validateCmi5Statement(ctx, statement).issues.map((i) => i.rule);
+  }
+
+  [
+    { name: "COMPLETED", statement: () => Cmi5CompleteStatement(ctx) },
+    { name: "PASSED", statement: () => Cmi5PassStatement(ctx, 0.9) },
+    { name: "FAILED", statement: () => Cmi5FailStatement(ctx, 0.1) },
+    { name: "TERMINATED", statement: () => Cmi5TerminateStatement(ctx) },
+    { name: "progressed", statement: () => Cmi5ProgressStatement(ctx, 50) },
+    {
+      name: "answered",
+      statement: () => Cmi5InteractionTrueFalseStatement(ctx, "t", "q", true),
+    },
+    {
+      name: "PASSED objective",
+      statement: () =>
+        Cmi5ObjectiveStatement(
+          ctx,
+          {
+            objectType: "Activity",
+            id: "http://example.com/objective",
+            definition: {
+              type: "http://adlnet.gov/expapi/activities/objective",
+            },
+          },
+          true,
+          0.9
+        ),
+    },
+  ].forEach((ex) => {
+    it(`accepts a ${ex.name} statement built by the library`, () => {
+      expect(validateCmi5Statement(ctx, ex.statement())).toEqual({
+        valid: true,
+        issues: [],
+      });
+    });
+  });
+
+  it("rejects a statement for another actor or registration", () => {
+    const statement = Cmi5ProgressStatement(ctx, 50);
+    expect(
+      rules({
+        ...statement,
+        actor: { mbox: "mailto:other@example.com" },
+        context: { ...statement.context, registration: randomUUID() },
+      })
+    ).toEqual([Cmi5ValidationRule.ACTOR, Cmi5ValidationRule.REGISTRATION]);
+  });
+
+  it("rejects a defined statement whose cmi5 category was removed", () => {
+    const statement = Cmi5CompleteStatement(ctx);
+    const result = validateCmi5Statement(ctx, {
+      ...statement,
+      context: {
+        ...statement.context,
+        contextActivities: { category: [Cmi5ContextActivity.MOVE_ON] },
+      },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        rule: Cmi5ValidationRule.CMI5_CATEGORY,
+        path: "context.contextActivities.category",
+        message: "COMPLETED is missing the cmi5 category",
+      },
+    ]);
+  });
+
+  it("rejects the cmi5 category on a cmi5 allowed statement", () => {
+    const statement = Cmi5ProgressStatement(ctx, 50);
+    expect(
+      rules({
+        ...statement,
+        context: {
+          ...statement.context,
+          contextActivities: { category: [Cmi5ContextActivity.CMI5] },
+        },
+      })
+    ).toEqual([Cmi5ValidationRule.CMI5_CATEGORY]);
+  });
+
+  it("rejects a defined statement about another object", () => {
+    expect(
+      rules({
+        ...Cmi5TerminateStatement(ctx),
+        object: { objectType: "Activity", id: "http://example.com/other" },
+      })
+    ).toEqual([Cmi5ValidationRule.OBJECT]);
+  });
+
+  it("rejects an objective in the category context activities", () => {
+    const statement = Cmi5PassStatement(ctx, 0.9);
+    statement.context.contextActivities.category = [
+      ...(statement.context.contextActivities.category as []),
+      {
+        id: "http://example.com/objective",
+        definition: { type: "http://adlnet.gov/expapi/activities/objective" },
+      },
+    ];
+    expect(rules(statement)).toEqual([Cmi5ValidationRule.OBJECTIVE]);
+  });
+
+  it("rejects a PASSED statement missing moveOn category, duration and masteryScore", () => {
+    const statement = Cmi5PassStatement(ctx, 0.9);
+    expect(
+      rules({
+        ...statement,
+        result: { success: true },
+        context: {
+          ...statement.context,
+          contextActivities: { category: [Cmi5ContextActivity.CMI5] },
+          extensions: {},
+        },
+      })
+    ).toEqual([
+      Cmi5ValidationRule.DURATION,
+      Cmi5ValidationRule.MOVE_ON_CATEGORY,
+      Cmi5ValidationRule.MASTERY_SCORE,
+    ]);
+  });
+
+  [101, -1, 50.5, "50"].forEach((progress) => {
+    it(`rejects progress ${JSON.stringify(progress)}`, () => {
+      const statement = Cmi5ProgressStatement(ctx, 0);
+      statement.result.extensions[Cmi5ResultExtension.PROGRESS] = progress;
+      expect(rules(statement)).toEqual([Cmi5ValidationRule.PROGRESS]);
+    });
+  });
+
+  [
+    "http://adlnet.gov/expapi/verbs/launched",
+    "https://w3id.org/xapi/adl/verbs/abandoned",
+    "https://w3id.org/xapi/adl/verbs/waived",
+    "https://w3id.org/xapi/adl/verbs/satisfied",
+  ].forEach((verbId) => {
+    it(`rejects the LMS only verb ${verbId}`, () => {
+      expect(
+        rules({ ...Cmi5ProgressStatement(ctx, 50), verb: { id: verbId } })
+      ).toEqual([Cmi5ValidationRule.DISALLOWED_VERB]);
+    });
+  });
+
+  it("accepts other verbs", () => {
+    expect(
+      rules({ ...Cmi5ProgressStatement(ctx, 50), verb: XAPI.Verbs.COMMENTED })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { Cmi5ContextExtension } from "../../src/constants";
+import { LAUNCH_DATA_RULES, validateLaunchData } from "../../src/validation";
+
+describe("validateLaunchData", () => {
+  const LAUNCH_DATA = {
+    contextTemplate: {
+      extensions: { [Cmi5ContextExtension.SESSION_ID]: "session-id" },
+    },
+    launchMode: "Normal",
+    moveOn: "CompletedAndPassed",
+    masteryScore: 0.5,
+    returnURL: "/returnUrl",
+  };
+
+  function paths(issues: { path: string }[]): string[] {
+    return issues.map((issue) => issue.path);
+  }
+
+  it("accepts valid launch data unchanged", () => {
+    expect(validateLaunchData(LAUNCH_DATA)).toEqual({
+      valid: true,
+      launchData: LAUNCH_DATA,
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it("rejects launch data that is not an object", () => {
+    expect(validateLaunchData("Normal").valid).toBe(false);
+  });
+
+  it("reports missing required fields", () => {
+    const { valid, errors } = validateLaunchData({});
+    expect(valid).toBe(false);
+    expect(paths(errors)).toEqual(["contextTemplate", "launchMode", "moveOn"]);
+  });
+
+  it("normalizes vocabulary in the wrong case", () => {
+    const { valid, launchData, warnings } = validateLaunchData({
+      ...LAUNCH_DATA,
+      launchMode: "review",
+      moveOn: "completedorpassed",
+    });
+    expect(valid).toBe(true);
+    expect(launchData).toEqual(
+      expect.objectContaining({
+        launchMode: "Review",
+        moveOn: "CompletedOrPassed",
+      })
+    );
+    expect(paths(warnings)).toEqual(["launchMode", "moveOn"]);
+  });
+
+  [
+    { masteryScore: "0.75", valid: true, expected: 0.75 },
+    { masteryScore: "abc", valid: true, expected: undefined },
+    { masteryScore: null, valid: true, expected: undefined },
+    { masteryScore: true, valid: true, expected: undefined },
+    { masteryScore: 1.5, valid: false, expected: 1.5 },
+  ].forEach((ex) => {
+    it(`handles masteryScore ${JSON.stringify(ex.masteryScore)}`, () => {
+      const result = validateLaunchData({
+        ...LAUNCH_DATA,
+        masteryScore: ex.masteryScore,
+      });
+      expect(result.valid).toBe(ex.valid);
+      expect(result.launchData.masteryScore).toEqual(ex.expected);
+    });
+  });
+
+  it("ignores a null masteryScore with a warning", () => {
+    const { launchData, warnings } = validateLaunchData({
+      ...LAUNCH_DATA,
+      masteryScore: null,
+    });
+    expect("masteryScore" in launchData).toBe(false);
+    expect(warnings).toEqual([
+      {
+        rule: "masteryScore",
+        path: "masteryScore",
+        message: "masteryScore should be a decimal from 0 to 1, ignoring null",
+      },
+    ]);
+  });
+
+  it("ignores optional fields of the wrong type with a warning", () => {
+    const { valid, launchData, warnings } = validateLaunchData({
+      ...LAUNCH_DATA,
+      returnURL: 42,
+      entitlementKey: "key",
+    });
+    expect(valid).toBe(true);
+    expect(launchData.returnURL).toBeUndefined();
+    expect(launchData.entitlementKey).toBeUndefined();
+    expect(paths(warnings)).toEqual(["returnURL", "entitlementKey"]);
+  });
+
+  it("warns when the contextTemplate has no session id", () => {
+    const { warnings } = validateLaunchData({
+      ...LAUNCH_DATA,
+      contextTemplate: {},
+    });
+    expect(paths(warnings)).toEqual(["contextTemplate.extensions"]);
+  });
+
+  it("runs only the given rules", () => {
+    const rules = LAUNCH_DATA_RULES.filter((rule) => rule.name === "moveOn");
+    expect(validateLaunchData({ moveOn: "Passed" }, rules).valid).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { PersistedSession } from "../../src/interfaces";
+import { WebStorageSessionStore } from "../../src/session";
+
+const SESSION: PersistedSession = {
+  fetchUrl: "http://fake-fetch.lms.example.com",
+  authToken: "dGVzdDp0ZXN0",
+  initializedDate: "2024-01-01T00:00:00.000Z",
+  activeDuration: null,
+  launchData: {
+    contextTemplate: {},
+    launchMode: "Normal",
+    moveOn: "CompletedAndPassed",
+  },
+  learnerPreferences: {},
+  sessionState: "active",
+  sentDefinedVerbs: ["INITIALIZED"],
+  pendingStatements: [],
+};
+
+function throwingStorage(): Storage {
+  const quotaExceeded = () => {
+    throw new DOMException(
+      "The quota has been exceeded.",
+      "QuotaExceededError"
+    );
+  };
+  return {
+    length: 0,
+    key: () => null,
+    getItem: quotaExceeded,
+    setItem: quotaExceeded,
+    removeItem: quotaExceeded,
+    clear: quotaExceeded,
+  };
+}
+
+describe("WebStorageSessionStore", () => {
+  afterEach(() => window.sessionStorage.clear());
+
+  it("saves, loads and removes a session under the prefixed key", async () => {
+    const store = new WebStorageSessionStore();
+    await store.save("r:a", SESSION);
+    expect(
+      JSON.parse(window.sessionStorage.getItem("cmi5.session.r:a"))
+    ).toEqual(SESSION);
+    expect(await store.load("r:a")).toEqual(SESSION);
+    expect(await store.load("r:b")).toBeNull();
+    await store.remove("r:a");
+    expect(await store.load("r:a")).toBeNull();
+    expect(window.sessionStorage).toHaveLength(0);
+  });
+
+  it("uses the given storage and key prefix", async () => {
+    const store = new WebStorageSessionStore(window.localStorage, "test.");
+    await store.save("r:a", SESSION);
+    expect(window.localStorage.getItem("test.r:a")).not.toBeNull();
+    expect(window.sessionStorage).toHaveLength(0);
+    window.localStorage.clear();
+  });
+
+  it("loads nothing from corrupt JSON", async () => {
+    window.sessionStorage.setItem("cmi5.session.r:a", "{not json");
+    await expect(new WebStorageSessionStore().load("r:a")).resolves.toBeNull();
+  });
+
+  it("loads nothing and rejects writes when the storage throws", async () => {
+    const store = new WebStorageSessionStore(throwingStorage());
+    await expect(store.load("r:a")).resolves.toBeNull();
+    await expect(store.save("r:a", SESSION)).rejects.toThrow(
+      "The quota has been exceeded."
+    );
+    await expect(store.remove("r:a")).rejects.toThrow(
+      "The quota has been exceeded."
+    );
+  });
+});
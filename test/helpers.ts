@@ -1,4 +1,4 @@
-import XAPI, { Agent } from "@xapi/xapi";
+import XAPI, { Agent, Statement } from "@xapi/xapi";
 import { LaunchData, LaunchParameters } from "../src/interfaces";
 import MockAxios from "axios-mock-adapter";
 import axios, { AxiosResponse } from "axios";
@@ -75,7 +75,10 @@ export class MockCmi5Helper {
   mockAxios: MockAxios;
   mockXapiGetAgentProfile: jest.SpyInstance;
   mockXapiGetState: jest.SpyInstance;
+  mockXapiGetStatements: jest.SpyInstance;
+  mockXapiGetMoreStatements: jest.SpyInstance;
   mockXapiSendStatement: jest.SpyInstance;
+  mockXapiSendStatements: jest.SpyInstance;
 
   constructor(params: MockCmi5HelperParams = {}) {
     this.activityId = params.activityId || this.activityId;
@@ -91,7 +94,13 @@ export class MockCmi5Helper {
       "getAgentProfile"
     );
     this.mockXapiGetState = jest.spyOn(XAPI.prototype, "getState");
+    this.mockXapiGetStatements = jest.spyOn(XAPI.prototype, "getStatements");
+    this.mockXapiGetMoreStatements = jest.spyOn(
+      XAPI.prototype,
+      "getMoreStatements"
+    );
     this.mockXapiSendStatement = jest.spyOn(XAPI.prototype, "sendStatement");
+    this.mockXapiSendStatements = jest.spyOn(XAPI.prototype, "sendStatements");
   }
 
   get search(): URLSearchParams {
@@ -163,6 +172,22 @@ export class MockCmi5Helper {
     );
   }
 
+  // Each page after the first is returned from `getMoreStatements`
+  mockGetStatements(...pages: Statement[][]): void {
+    const responses = pages.map((statements, i) => ({
+      data: {
+        statements,
+        more: i < pages.length - 1 ? `/statements?more=${i + 1}` : "",
+      },
+    }));
+    this.mockXapiGetStatements.mockImplementation(() =>
+      _axiosResponse(responses[0])
+    );
+    this.mockXapiGetMoreStatements.mockImplementation(({ more }) =>
+      _axiosResponse(responses[Number(more.split("=")[1])])
+    );
+  }
+
   mockSendStatement(fakeResponse?: Partial<AxiosResponse>): void {
     this.mockXapiSendStatement.mockImplementation(() =>
       _axiosResponse(
@@ -175,11 +200,24 @@ export class MockCmi5Helper {
     );
   }
 
+  mockSendStatements(fakeResponse?: Partial<AxiosResponse>): void {
+    this.mockXapiSendStatements.mockImplementation(({ statements }) =>
+      _axiosResponse(
+        fakeResponse
+          ? fakeResponse
+          : {
+              data: statements.map((s: { id: string }) => s.id),
+            }
+      )
+    );
+  }
+
   restore(): void {
     if (this.locationOriginal) {
       _setWindowLocation(this.locationOriginal);
     }
     this.mockAxios.restore();
+    window.sessionStorage.clear();
     jest.resetAllMocks();
   }
 }